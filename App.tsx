@@ -1,22 +1,55 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Download, Trash2, Wand2, UploadCloud, FolderOutput, FilePlus, CheckCircle, AlertCircle, Circle, Database, Activity, Coffee, FolderPlus, Sparkles, Eraser } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Download, FileArchive, FileUp, Trash2, Wand2, UploadCloud, FolderOutput, FilePlus, CheckCircle, AlertCircle, Circle, Database, Activity, Coffee, FolderPlus, Sparkles, Eraser, Undo2, Redo2, Layers, Copy, X } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 import ApiKeyPanel from './components/ApiKeyPanel';
 import MetadataSettings from './components/MetadataSettings';
 import FileCard from './components/FileCard';
 import PreviewModal from './components/PreviewModal';
-import { generateMetadataForFile, translateMetadataContent } from './services/geminiService';
-import { downloadCSV } from './utils/helpers';
-import { AppSettings, FileItem, FileType, ProcessingStatus, Language, FileMetadata } from './types';
-import { INITIAL_METADATA } from './constants';
-
-interface LogEntry {
+import ProjectPanel from './components/ProjectPanel';
+import ProviderPanel from './components/ProviderPanel';
+import PromptEditor from './components/PromptEditor';
+import BlocklistPanel from './components/BlocklistPanel';
+import BulkActionBar from './components/BulkActionBar';
+import { generateMetadataForFile, translateMetadataContent } from './services/metadataService';
+import { cleanKeywordString, FILLER_KEYWORDS, KeywordProcessingOptions } from './utils/keywords';
+import { getBlockedTerms } from './utils/blocklist';
+import { getProvider, getProviderConfig } from './services/providers';
+import { downloadCSV, downloadTaggedZip, generateProjectName, triggerDownload } from './utils/helpers';
+import { computeImageSignature, createImageThumbnail } from './services/mediaPool';
+import { buildProjectManifest, matchProjectFiles, parseProjectManifest, projectFileName, ProjectManifest } from './utils/project';
+import { readEmbeddedMetadata } from './utils/embeddedMetadata';
+import { importCSV } from './utils/csvImport';
+import { splitKeywords } from './utils/exportProfiles';
+import { lintFiles } from './utils/compliance';
+import { describeMetadataChange, EMPTY_HISTORY, forgetFiles, HistoryEntry, HistorySource, HistoryState, isSameMetadata, recordHistory, takeRedo, takeUndo } from './utils/history';
+import { getSignatureSource } from './utils/imageHash';
+import { detectSeries, harmonizeSeries, Series } from './utils/series';
+import { computeContentHash, findNearDuplicateGroups } from './utils/duplicates';
+import { getVideoWarnings, inspectVideo } from './utils/videoInfo';
+import { companionKey, isCompanionCandidate, isMissingCompanion, needsCompanion, pairCompanions } from './utils/companions';
+import { detectFileType, isAutoMode } from './utils/fileType';
+import { buildKeyPool, classifyKeyError, createApiKeyEntry, getKeyStatus, KEY_COOLDOWN_MS, parseApiKeys, recordKeyRequest } from './utils/apiKeys';
+import { collectDroppedFiles, collectPastedFiles, describeImportSummary, fromFileList, hasFiles, ImportedFile, ImportProgress, ImportSummary, itemPath } from './utils/fileImport';
+import { isPdf, renderPdfThumbnail } from './services/pdfRenderer';
+import { applyBulkOperation, BulkOperation, BulkSelector, describeBulkOperation, selectFileIds } from './utils/bulkEdit';
+import { getActiveLanguages, getLanguageInfo, getLocalizedContent, normalizeLanguage, normalizeMetadata, setLocalizedContent, SOURCE_LANGUAGE } from './utils/locales';
+import { ApiKeyEntry, AppSettings, FileItem, FileType, ProcessingStatus, Language, FileMetadata, EmbeddedAction, LocalizedContent, LogEntry, VideoInfo } from './types';
+import { INITIAL_METADATA, DEFAULT_SETTINGS } from './constants';
+import { deleteState, isQuotaError, loadSession, saveFiles, saveState } from './services/sessionStore';
+
+// Session file writes: debounce, longest delay under constant changes, retry delay after a failure
+const FILES_SAVE_DEBOUNCE = 800;
+const FILES_SAVE_MAX_WAIT = 5000;
+const FILES_SAVE_RETRY = 5000;
+const FILES_SAVE_RETRY_MAX = 120000; // Backoff cap for repeated failures
+
+interface HistoryBatch {
   id: string;
-  time: string;
-  message: string;
-  type: 'info' | 'success' | 'error' | 'warning';
+  time: number;
+  source: HistorySource;
+  label: string;
 }
 
 const App: React.FC = () => {
@@ -25,22 +58,39 @@ const App: React.FC = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [currentTime, setCurrentTime] = useState(new Date());
   
-  const [apiKeys, setApiKeys] = useState<string[]>([]);
-  const [settings, setSettings] = useState<AppSettings>({
-    customTitle: '',
-    customKeyword: '',
-    slideTitle: 60, // CHANGED: Default updated from 50 to 60
-    slideKeyword: 40,
-    selectedFileType: FileType.Image,
-    csvFilename: '',
-  });
+  const [apiKeys, setApiKeys] = useState<ApiKeyEntry[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   
   const [files, setFiles] = useState<FileItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [previewItem, setPreviewItem] = useState<FileItem | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<FileType | null>(null); // Output grid: one type only (mixed batches)
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   
   const [fileLanguages, setFileLanguages] = useState<Record<string, Language>>({});
 
+  // Bulk selection (card checkboxes); the anchor is the last clicked card for shift-click ranges
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  // Undo/redo stacks. setFiles updaters only tag the new metadata object with its batch
+  // (trackMetadata); entries are recorded after commit by diffing against the last committed
+  // metadata, so replayed updaters (StrictMode, concurrent rendering) never record anything.
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const historyBatchesRef = useRef(new WeakMap<FileMetadata, HistoryBatch>());
+  const committedMetadataRef = useRef<Map<string, FileMetadata>>(new Map());
+
+  // Session persistence: nothing is written until the previous session has been restored
+  const [isRestored, setIsRestored] = useState(false);
+  const [resumeCount, setResumeCount] = useState(0);
+  const persistedFilesRef = useRef<Map<string, FileItem>>(new Map());
+
+  // Named projects (manifest save/load)
+  const [projectName, setProjectName] = useState(generateProjectName());
+  const [pendingProject, setPendingProject] = useState<ProjectManifest | null>(null);
+
   // Refs for processing logic
   const processingRef = useRef(false);
   const activeWorkersRef = useRef(0);
@@ -49,15 +99,20 @@ const App: React.FC = () => {
   // LOGIC UPDATE: Track active active keys to prevent double usage
   const activeKeysRef = useRef<Set<string>>(new Set());
   
-  // LOGIC UPDATE: Cooldown map instead of Dead Keys
-  // Map<ApiKey, TimestampWhenAvailable>
-  const cooldownKeysRef = useRef<Map<string, number>>(new Map());
+  // Live key list (status + stats). Workers read this instead of `apiKeys`, which is frozen in the
+  // render that started the queue, so toggles and status changes apply mid-run.
+  const apiKeysRef = useRef<ApiKeyEntry[]>([]);
+
+  // Cooldown of the keyless pseudo key (local providers), which has no entry to hold it
+  const keylessCooldownRef = useRef(0);
   
   // LOGIC UPDATE: Global Rotation Index for Round-Robin
   const nextKeyIdxRef = useRef(0);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
+  const importingRef = useRef(false); // One import at a time (duplicate checks compare against the current batch)
+  const csvInputRef = useRef<HTMLInputElement>(null);
   const sidebarContentRef = useRef<HTMLDivElement>(null);
 
   // Clock Effect
@@ -68,11 +123,150 @@ const App: React.FC = () => {
     return () => clearInterval(timer);
   }, []);
 
-  // Clear cooldowns if user updates the key list
+  // Restore previous session from IndexedDB (once)
   useEffect(() => {
-    cooldownKeysRef.current.clear();
-    nextKeyIdxRef.current = 0;
-  }, [apiKeys]);
+    loadSession()
+      .then(session => {
+        if (session.settings) setSettings(prev => ({ ...prev, ...session.settings }));
+        if (session.fileLanguages) {
+          setFileLanguages(Object.fromEntries(Object.entries(session.fileLanguages).map(([id, code]) => [id, normalizeLanguage(code)])));
+        }
+        if (session.logs) setLogs(session.logs);
+        if (session.apiKeys && session.settings?.persistApiKeys) {
+          const stored = session.apiKeys;
+          // Keys typed in while the session was loading are kept
+          updateApiKeys(keys => [...stored, ...keys.filter(k => !stored.some(s => s.key === k.key))]);
+        }
+
+        if (session.files.length > 0) {
+          const restored: FileItem[] = session.files.map(({ record, file }) => {
+            const { order, ...item } = record;
+            return {
+              ...item,
+              file,
+              metadata: normalizeMetadata(item.metadata),
+              previewUrl: URL.createObjectURL(file),
+              // A reload kills running requests: interrupted files go back to the queue
+              status: item.status === ProcessingStatus.Processing ? ProcessingStatus.Pending : item.status,
+            };
+          });
+          persistedFilesRef.current = new Map(restored.map(f => [f.id, f]));
+          setFiles(restored);
+
+          const unfinished = restored.filter(f => f.status === ProcessingStatus.Pending).length;
+          setResumeCount(unfinished);
+          addLog(`Restored previous session: ${restored.length} files (${unfinished} unfinished).`, 'info');
+        }
+      })
+      .catch(error => {
+        console.error("Session restore failed", error);
+        addLog('Could not restore previous session (IndexedDB unavailable).', 'warning');
+      })
+      .finally(() => setIsRestored(true));
+  }, []);
+
+  // Persist files (debounced, diff-based so blobs are only written once).
+  // Workers update statuses constantly during a batch, which would keep pushing a plain debounce
+  // back: a save still happens at least every FILES_SAVE_MAX_WAIT ms. Writes run one at a time and
+  // the persisted snapshot only moves once a write succeeded, so a failed save is retried (with
+  // backoff; a full storage is not retried until the files change again). The user is warned once.
+  const latestFilesRef = useRef(files);
+  latestFilesRef.current = files;
+  const pendingSinceRef = useRef<number | null>(null);
+  const savingFilesRef = useRef(false);
+  const saveRetryDelayRef = useRef(FILES_SAVE_RETRY);
+  const saveWarnedRef = useRef(false);
+
+  const warnSaveFailure = (error: unknown, what: string) => {
+    console.error("Session save failed", error);
+    if (saveWarnedRef.current) return;
+    saveWarnedRef.current = true;
+    addLog(isQuotaError(error)
+      ? `Browser storage is full: ${what} will not survive a reload. Remove files or export your work.`
+      : `Session could not be saved: ${what} will not survive a reload. Retrying in the background.`, 'warning');
+  };
+
+  const persistFiles = () => {
+    if (savingFilesRef.current) return; // The running save picks up newer changes when it ends
+    const snapshot = latestFilesRef.current;
+    const previous = persistedFilesRef.current;
+    const changed = snapshot.filter(f => previous.get(f.id) !== f);
+    const addedIds = new Set(snapshot.filter(f => !previous.has(f.id)).map(f => f.id));
+    const currentIds = new Set(snapshot.map(f => f.id));
+    const removedIds = Array.from(previous.keys()).filter(id => !currentIds.has(id));
+
+    savingFilesRef.current = true;
+    pendingSinceRef.current = null;
+    saveFiles(snapshot, changed, addedIds, removedIds)
+      .then(({ unsavedBlobIds, blobError }) => {
+        // Files whose bytes failed for another reason than a full storage count as unsaved: retried
+        const retryIds = isQuotaError(blobError) ? [] : unsavedBlobIds;
+        persistedFilesRef.current = new Map(snapshot.filter(f => !retryIds.includes(f.id)).map(f => [f.id, f]));
+        savingFilesRef.current = false;
+        if (unsavedBlobIds.length > 0) {
+          warnSaveFailure(blobError, `${unsavedBlobIds.length} newly added files`);
+        } else {
+          saveWarnedRef.current = false;
+        }
+        if (retryIds.length > 0) {
+          setTimeout(persistFiles, saveRetryDelayRef.current);
+          saveRetryDelayRef.current = Math.min(saveRetryDelayRef.current * 2, FILES_SAVE_RETRY_MAX);
+        } else {
+          saveRetryDelayRef.current = FILES_SAVE_RETRY;
+          if (latestFilesRef.current !== snapshot) persistFiles();
+        }
+      })
+      .catch(error => {
+        savingFilesRef.current = false;
+        warnSaveFailure(error, 'recent changes');
+        if (isQuotaError(error)) return; // Tried again on the next change
+        setTimeout(persistFiles, saveRetryDelayRef.current);
+        saveRetryDelayRef.current = Math.min(saveRetryDelayRef.current * 2, FILES_SAVE_RETRY_MAX);
+      });
+  };
+
+  useEffect(() => {
+    if (!isRestored) return;
+    if (pendingSinceRef.current === null) pendingSinceRef.current = Date.now();
+    const maxWait = pendingSinceRef.current + FILES_SAVE_MAX_WAIT - Date.now();
+    const timer = setTimeout(persistFiles, Math.max(0, Math.min(FILES_SAVE_DEBOUNCE, maxWait)));
+    return () => clearTimeout(timer);
+  }, [files, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveState('settings', settings).catch(error => console.error("Settings save failed", error));
+  }, [settings, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    saveState('fileLanguages', fileLanguages).catch(error => console.error("Language save failed", error));
+  }, [fileLanguages, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+    const timer = setTimeout(() => {
+      saveState('logs', logs.slice(-500)).catch(error => console.error("Log save failed", error));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [logs, isRestored]);
+
+  // Keys are only stored when the user opted in; opting out removes them
+  useEffect(() => {
+    if (!isRestored || !settings.persistApiKeys) return;
+    const timer = setTimeout(() => {
+      saveState('apiKeys', apiKeys).catch(error => console.error("API key save failed", error));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [apiKeys, settings.persistApiKeys, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored || settings.persistApiKeys) return;
+    deleteState('apiKeys').catch(error => console.error("API key removal failed", error));
+  }, [settings.persistApiKeys, isRestored]);
+
+  const provider = getProvider(settings.aiProvider);
+  const keyPool = buildKeyPool(apiKeys, provider.requiresApiKey, currentTime.getTime());
 
   const formatTime = (date: Date) => {
     const hours = String(date.getHours()).padStart(2, '0');
@@ -106,83 +300,381 @@ const App: React.FC = () => {
     addLog('Logs cleared by user.', 'info');
   };
 
-  // Wrapper for updating API keys to add logging
-  const handleSetApiKeys = (keys: string[]) => {
-    const prevCount = apiKeys.length;
-    const newCount = keys.length;
-    
-    setApiKeys(keys);
+  // --- API KEYS ---
+  // Every change goes through here so the live ref and the panel stay in step
+  const updateApiKeys = (update: (keys: ApiKeyEntry[]) => ApiKeyEntry[]) => {
+    apiKeysRef.current = update(apiKeysRef.current);
+    setApiKeys(apiKeysRef.current);
+  };
+
+  // Logs name keys by label, never by value or position
+  const keyLabel = (key: string) => {
+    const index = apiKeysRef.current.findIndex(k => k.key === key);
+    if (index < 0) return key ? 'Removed key' : 'No key';
+    return `"${apiKeysRef.current[index].label.trim() || `Key ${index + 1}`}"`;
+  };
 
-    if (newCount > prevCount) {
-      addLog(`User added ${newCount - prevCount} API Keys. Total: ${newCount}`, 'info');
-    } else if (newCount < prevCount) {
-      addLog(`User removed ${prevCount - newCount} API Keys. Remaining: ${newCount}`, 'warning');
-    } else if (newCount === 0 && prevCount > 0) {
-      addLog(`All API keys removed by user.`, 'warning');
-    } else if (newCount === prevCount && newCount > 0) {
-      // Just an update, maybe typo fix
-      addLog(`API Keys updated. Total: ${newCount}`, 'info');
+  const recordKeyOutcome = (key: string, outcome: Parameters<typeof recordKeyRequest>[1]) => {
+    if (!key) {
+      if (!outcome.ok && outcome.status === 'cooldown') keylessCooldownRef.current = Date.now() + KEY_COOLDOWN_MS;
+      return;
+    }
+    updateApiKeys(keys => keys.map(k => k.key === key ? recordKeyRequest(k, outcome, Date.now()) : k));
+  };
+
+  const handleAddKeys = (text: string, label: string) => {
+    const keys = parseApiKeys(text, apiKeysRef.current);
+    if (keys.length === 0) {
+      addLog('No new API keys to add (empty or already in the list).', 'warning');
+      return;
     }
+    const offset = apiKeysRef.current.length;
+    updateApiKeys(prev => [
+      ...prev,
+      ...keys.map((key, i) => createApiKeyEntry(key, label ? (keys.length > 1 ? `${label} ${i + 1}` : label) : `Key ${offset + i + 1}`)),
+    ]);
+    addLog(`User added ${keys.length} API Keys. Total: ${offset + keys.length}`, 'info');
+  };
+
+  const handleUpdateKey = (id: string, changes: Partial<Pick<ApiKeyEntry, 'label' | 'enabled'>>) => {
+    const entry = apiKeysRef.current.find(k => k.id === id);
+    updateApiKeys(keys => keys.map(k => k.id === id ? { ...k, ...changes } : k));
+    if (entry && changes.enabled !== undefined && changes.enabled !== entry.enabled) {
+      addLog(`Key ${keyLabel(entry.key)} ${changes.enabled ? 'enabled' : 'disabled'}.`, 'info');
+    }
+  };
+
+  const handleRemoveKey = (id: string) => {
+    const entry = apiKeysRef.current.find(k => k.id === id);
+    if (!entry) return;
+    const label = keyLabel(entry.key);
+    updateApiKeys(keys => keys.filter(k => k.id !== id));
+    addLog(`User removed API Key ${label}. Remaining: ${apiKeysRef.current.length}`, 'warning');
+  };
+
+  // One tiny request with the current provider/model settings
+  const handleValidateKey = async (id: string) => {
+    const entry = apiKeysRef.current.find(k => k.id === id);
+    if (!entry) return;
+    try {
+      await provider.validateKey(getProviderConfig(settings, entry.key));
+      recordKeyOutcome(entry.key, { ok: true });
+      addLog(`Key ${keyLabel(entry.key)} is valid (${provider.label}).`, 'success');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const status = classifyKeyError(message);
+      recordKeyOutcome(entry.key, { ok: false, status, error: message });
+      addLog(`Key ${keyLabel(entry.key)} check failed${status ? ` (${status})` : ''}: ${message}`, status === 'cooldown' ? 'warning' : 'error');
+    }
+  };
+
+  const handlePersistKeysChange = (persistApiKeys: boolean) => {
+    setSettings(prev => ({ ...prev, persistApiKeys }));
+    addLog(persistApiKeys ? 'API keys will be remembered on this device.' : 'Stored API keys removed from this device.', 'info');
   };
 
   // Handlers
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!e.target.files) return;
-    processFiles(e.target.files);
+    const imported = fromFileList(e.target.files);
+    runImport(async () => imported);
     e.target.value = ''; // Reset input
   };
 
-  // Instant Process Files (No extraction here, just UI setup)
-  const processFiles = (fileList: FileList) => {
-    const count = fileList.length;
-    addLog(`Uploaded ${count} files. Filtering for ${settings.selectedFileType}...`, 'info');
+  // --- DRAG & DROP / PASTE ---
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasFiles(e.dataTransfer)) return;
+    e.preventDefault(); // Allows the drop
+    e.dataTransfer.dropEffect = isProcessing ? 'none' : 'copy';
+    if (!isProcessing) setIsDragging(true);
+  };
 
-    const newFiles: FileItem[] = Array.from(fileList)
-      .filter(file => {
-        // STRICT FILTERING
-        if (settings.selectedFileType === FileType.Image) {
-          return file.type.startsWith('image/') && !file.type.includes('svg');
-        }
-        if (settings.selectedFileType === FileType.Video) {
-          return file.type.startsWith('video/');
-        }
-        if (settings.selectedFileType === FileType.Vector) {
-          // Strict Vector Check: Only SVG, EPS, AI, PDF
-          // Explicitly REJECT generic images to satisfy user requirement
-          if (file.type === 'image/jpeg' || file.type === 'image/png' || file.type === 'image/gif') {
-            return false;
-          }
-          
-          const name = file.name.toLowerCase();
-          return file.type === 'image/svg+xml' || 
-                 file.type === 'application/pdf' ||
-                 name.endsWith('.svg') || 
-                 name.endsWith('.eps') || 
-                 name.endsWith('.ai') || 
-                 name.endsWith('.pdf');
-        }
-        return false;
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Moving over a child card also fires dragleave on the container
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasFiles(e.dataTransfer)) return;
+    e.preventDefault();
+    setIsDragging(false);
+    if (isProcessing) return;
+    // collectDroppedFiles grabs the entries synchronously, before the event's data is released
+    runImport(() => collectDroppedFiles(e.dataTransfer, found => setImportProgress({ label: 'Reading dropped folders', done: found, total: 0 })));
+  };
+
+  // Ctrl/Cmd+V anywhere outside text fields (screenshots, images or files copied in the file manager)
+  const handlePasteRef = useRef<(e: ClipboardEvent) => void>(() => {});
+  handlePasteRef.current = (e: ClipboardEvent) => {
+    if (isProcessing || !hasFiles(e.clipboardData)) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+    e.preventDefault();
+    const imported = collectPastedFiles(e.clipboardData!);
+    runImport(async () => imported);
+  };
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => handlePasteRef.current(e);
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, []);
+
+  // Every import source goes through here: one at a time, with progress and a final summary
+  const runImport = async (collect: () => Promise<ImportedFile[]>) => {
+    if (importingRef.current) {
+      addLog("Still importing the previous files. Try again in a moment.", 'warning');
+      return;
+    }
+    importingRef.current = true;
+    setImportSummary(null);
+    try {
+      const imported = await collect();
+      if (imported.length === 0) {
+        addLog("Nothing to import (no readable files).", 'warning');
+        return;
+      }
+      const summary = await processFiles(imported);
+      setImportSummary(summary);
+      addLog(`Import finished: ${describeImportSummary(summary)}.`, summary.accepted > 0 ? 'success' : 'warning');
+    } catch (error) {
+      addLog(`Import failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    } finally {
+      importingRef.current = false;
+      setImportProgress(null);
+    }
+  };
+
+  // Instant Process Files (No extraction here, just UI setup + embedded metadata lookup)
+  const processFiles = async (imported: ImportedFile[]): Promise<ImportSummary> => {
+    const count = imported.length;
+    const mode = settings.selectedFileType;
+    addLog(isAutoMode(mode) ? `Uploaded ${count} files. Detecting file types...` : `Uploaded ${count} files. Filtering for ${mode}...`, 'info');
+
+    // Type per file from magic bytes / MIME / extension. Auto keeps every supported type,
+    // the single-type modes keep their own (STRICT FILTERING)
+    let detectedCount = 0;
+    setImportProgress({ label: 'Detecting file types', done: 0, total: count });
+    const detected = await Promise.all(imported.map(async item => {
+      const type = await detectFileType(item.file);
+      setImportProgress({ label: 'Detecting file types', done: ++detectedCount, total: count });
+      return { ...item, type };
+    }));
+    const vectorsPossible = isAutoMode(mode) || mode === FileType.Vector;
+    // In Auto, a JPG/PNG named like an EPS/AI (of this upload, or one still waiting for it) is its preview, not a photo
+    const companionKeys = new Set([
+      ...detected.filter(d => d.type === FileType.Vector && needsCompanion(d.file)).map(d => companionKey(d.relativePath)),
+      ...files.filter(isMissingCompanion).map(f => companionKey(itemPath(f))),
+    ]);
+    const isPreviewOfVector = ({ file, relativePath, type }: typeof detected[number]) =>
+      vectorsPossible && type === FileType.Image && isCompanionCandidate(file) && companionKeys.has(companionKey(relativePath));
+
+    const newFiles: FileItem[] = detected
+      .filter(item => {
+        if (!item.type) return false;
+        if (!isAutoMode(mode)) return item.type === mode;
+        return !isPreviewOfVector(item);
       })
-      .map((file: File) => ({
+      .map(({ file, relativePath, type }) => ({
         id: uuidv4(),
         file,
+        relativePath,
         previewUrl: URL.createObjectURL(file), // Full file preview URL
-        type: settings.selectedFileType,
+        type: type!,
         status: ProcessingStatus.Pending,
         metadata: JSON.parse(JSON.stringify(INITIAL_METADATA)), // Deep copy
       }));
+
+    if (isAutoMode(mode)) {
+      const counts = [FileType.Image, FileType.Video, FileType.Vector]
+        .map(type => ({ type, n: newFiles.filter(f => f.type === type).length }))
+        .filter(c => c.n > 0);
+      if (counts.length > 0) addLog(`Detected ${counts.map(c => `${c.n} ${c.type}`).join(', ')}.`, 'info');
+    }
       
-    if (newFiles.length < count) {
-       addLog(`Filtered out ${count - newFiles.length} invalid files (Mismatch Type).`, 'warning');
+    // EPS/AI companions: same-name JPG/PNG in this upload, for new vectors and earlier ones still missing one
+    let used = new Set<File>();
+    if (vectorsPossible) {
+      const candidates = imported.filter(item => isCompanionCandidate(item.file));
+      const waiting = files.filter(isMissingCompanion);
+      const pairs = pairCompanions([...newFiles, ...waiting].map(f => ({ file: f.file, relativePath: itemPath(f) })), candidates);
+      used = new Set(pairs.values());
+
+      const thumbnails = new Map<File, string>();
+      for (const companion of used) {
+        try {
+          thumbnails.set(companion, await createImageThumbnail(companion));
+        } catch (error) {
+          console.warn("Companion thumbnail failed", companion.name, error);
+        }
+      }
+
+      newFiles.forEach((item, index) => {
+        const companion = pairs.get(index);
+        if (companion) Object.assign(item, { companion, thumbnail: thumbnails.get(companion) });
+      });
+      const late = new Map(waiting.map((f, i) => [f.id, pairs.get(newFiles.length + i)] as const).filter(([, c]) => c));
+      if (late.size > 0) {
+        // No fingerprint was possible without a preview: compute it from the companion now
+        late.forEach((_, id) => signingRef.current.delete(id));
+        setFiles(prev => prev.map(f => late.has(f.id) ? { ...f, companion: late.get(f.id), thumbnail: thumbnails.get(late.get(f.id)!), signature: undefined } : f));
+        addLog(`Paired ${late.size} earlier vectors with their preview images.`, 'info');
+      }
+
+      // PDFs: rendered locally (first page) for the thumbnail; page count and artboard for the card
+      const pdfs = newFiles.filter(f => f.type === FileType.Vector && isPdf(f.file));
+      for (const [index, item] of pdfs.entries()) {
+        setImportProgress({ label: 'Rendering PDFs', done: index, total: pdfs.length });
+        try {
+          const { thumbnail, info } = await renderPdfThumbnail(item.file, 1);
+          Object.assign(item, { thumbnail, pdfInfo: info });
+        } catch (error) {
+          console.warn("PDF render failed", item.file.name, error);
+        }
+      }
+
+      const missing = newFiles.filter(isMissingCompanion).length;
+      if (missing > 0) {
+        addLog(`${missing} EPS/AI files have no same-name JPG/PNG preview. Add them to the upload so the AI can see the artwork.`, 'warning');
+      }
+    }
+
+    // Named like a vector but not used (cat.png when cat.jpg won the pairing): skipped, not wrong type
+    const companionCount = used.size;
+    const skippedCompanions = detected.filter(item => isPreviewOfVector(item) && !used.has(item.file)).length;
+    const wrongType = count - newFiles.length - companionCount - skippedCompanions;
+    if (wrongType > 0) {
+       addLog(`Filtered out ${wrongType} invalid files (${isAutoMode(mode) ? 'Unsupported Type' : 'Mismatch Type'}).`, 'warning');
+    }
+
+    // --- DUPLICATE CHECK ---
+    // Exact duplicates (same bytes as a file already in the batch, or earlier in this upload) are rejected.
+    // Files restored from older sessions get their hash here, once.
+    const HASH_BATCH = 4;
+    const existingHashes = new Map<string, string>();
+    const unhashed = files.filter(f => !f.contentHash);
+    for (let i = 0; i < unhashed.length; i += HASH_BATCH) {
+      await Promise.all(unhashed.slice(i, i + HASH_BATCH).map(async f => {
+        try {
+          existingHashes.set(f.id, await computeContentHash(f.file));
+        } catch (error) {
+          console.warn("Content hash failed", f.file.name, error);
+        }
+      }));
+    }
+    if (existingHashes.size > 0) {
+      setFiles(prev => prev.map(f => existingHashes.has(f.id) ? { ...f, contentHash: existingHashes.get(f.id) } : f));
+    }
+
+    for (let i = 0; i < newFiles.length; i += HASH_BATCH) {
+      setImportProgress({ label: 'Checking duplicates', done: i, total: newFiles.length });
+      await Promise.all(newFiles.slice(i, i + HASH_BATCH).map(async item => {
+        try {
+          item.contentHash = await computeContentHash(item.file);
+        } catch (error) {
+          console.warn("Content hash failed", item.file.name, error);
+        }
+      }));
+    }
+
+    const knownHashes = new Set([...files.map(f => f.contentHash), ...existingHashes.values()].filter(Boolean));
+    const rejected: string[] = [];
+    const acceptedFiles = newFiles.filter(item => {
+      if (!item.contentHash) return true;
+      if (knownHashes.has(item.contentHash)) {
+        rejected.push(item.file.name);
+        URL.revokeObjectURL(item.previewUrl);
+        return false;
+      }
+      knownHashes.add(item.contentHash);
+      return true;
+    });
+    if (rejected.length > 0) {
+      addLog(`Rejected ${rejected.length} exact duplicates: ${rejected.slice(0, 10).join(', ')}${rejected.length > 10 ? '…' : ''}`, 'warning');
+    }
+
+    // Visual fingerprints right away, so near-duplicates are grouped before anyone clicks Generate
+    for (let i = 0; i < acceptedFiles.length; i += 8) {
+      setImportProgress({ label: 'Fingerprinting', done: i, total: acceptedFiles.length });
+      await Promise.all(acceptedFiles.slice(i, i + 8).map(async item => {
+        const source = getSignatureSource(item);
+        if (!source) return;
+        try {
+          item.signature = await computeImageSignature(source);
+        } catch (error) {
+          console.warn("Signature failed", item.file.name, error);
+        }
+      }));
+    }
+
+    // Prefill from existing IPTC/XMP (e.g. Lightroom) so we don't pay to regenerate curated metadata.
+    // Small batches keep memory flat on 600-file uploads.
+    const photos = acceptedFiles.filter(f => f.type === FileType.Image);
+    if (photos.length > 0) {
+      const BATCH_SIZE = 8;
+      for (let i = 0; i < photos.length; i += BATCH_SIZE) {
+        setImportProgress({ label: 'Reading embedded metadata', done: i, total: photos.length });
+        await Promise.all(photos.slice(i, i + BATCH_SIZE).map(async item => {
+          try {
+            const embedded = await readEmbeddedMetadata(item.file);
+            if (!embedded) return;
+            item.metadata.en = { title: embedded.title, keywords: embedded.keywords.join(', ') };
+            item.status = ProcessingStatus.Embedded;
+          } catch (error) {
+            console.warn("Embedded metadata read failed", item.file.name, error);
+          }
+        }));
+      }
+
+      const embeddedCount = photos.filter(f => f.status === ProcessingStatus.Embedded).length;
+      if (embeddedCount > 0) {
+        addLog(`Found existing metadata in ${embeddedCount} files. Choose Keep, Enhance or Overwrite.`, 'info');
+      }
+    }
+
+    const nearDuplicates = findNearDuplicateGroups([...files, ...acceptedFiles], settings.nearDuplicateThreshold)
+      .filter(group => group.some(id => acceptedFiles.some(f => f.id === id)));
+    if (nearDuplicates.length > 0) {
+      addLog(`Found ${nearDuplicates.length} near-duplicate groups. Keep the best one or mark them as variants before generating.`, 'warning');
     }
 
-    setFiles(prev => [...prev, ...newFiles]);
+    setFiles(prev => [...prev, ...acceptedFiles]);
+    return { accepted: acceptedFiles.length, companions: companionCount, skippedCompanions, wrongType, duplicates: rejected.length };
+  };
+
+  // Resolve files imported with embedded metadata
+  // keep: accept as-is (Completed) | enhance: AI refines it | overwrite: AI starts from scratch
+  const handleEmbeddedAction = async (ids: string[], action: EmbeddedAction) => {
+    const targets = files.filter(f => ids.includes(f.id) && f.status === ProcessingStatus.Embedded);
+    if (targets.length === 0) return;
+    const batch = newHistoryBatch('user', 'Discarded embedded metadata');
+
+    setFiles(prev => prev.map(f => {
+      if (!ids.includes(f.id) || f.status !== ProcessingStatus.Embedded) return f;
+      if (action === 'keep') {
+        return { ...f, status: ProcessingStatus.Completed };
+      }
+      if (action === 'enhance') {
+        return { ...f, status: ProcessingStatus.Pending, enhanceExisting: true };
+      }
+      return { ...trackMetadata(f, JSON.parse(JSON.stringify(INITIAL_METADATA)), batch), status: ProcessingStatus.Pending, enhanceExisting: false };
+    }));
+
+    const label = action === 'keep' ? 'Kept' : action === 'enhance' ? 'Queued for AI enhancement' : 'Queued for overwrite';
+    addLog(`${label}: ${targets.length} files with embedded metadata.`, 'info');
+
+    // Kept files only have English: fill the translations in the background (one at a time)
+    if (action === 'keep') {
+      for (const f of targets) {
+        await syncTranslation(f.id, f.metadata.en, SOURCE_LANGUAGE);
+      }
+    }
   };
 
   const handleClearAll = () => {
     const count = files.length;
     files.forEach(f => URL.revokeObjectURL(f.previewUrl));
     setFiles([]);
+    setSelectedIds([]);
     setIsProcessing(false);
     processingRef.current = false;
     addLog(`Cleared all ${count} files.`, 'warning');
@@ -195,88 +687,607 @@ const App: React.FC = () => {
       addLog(`Deleted file: ${file.file.name}`, 'warning');
     }
     setFiles(prev => prev.filter(f => f.id !== id));
+    setSelectedIds(prev => prev.filter(s => s !== id));
   };
 
-  // --- DUAL LANGUAGE SYNC UPDATE LOGIC ---
-  const handleUpdateMetadata = async (id: string, field: 'title' | 'keywords' | 'category', value: string, language: Language) => {
-    
+  // --- NEAR-DUPLICATES ---
+  // Keep one file of the group (the others are removed) or keep them all as intentional variants
+  const handleKeepDuplicate = (keepId: string) => {
+    const group = nearDuplicateGroups.find(g => g.includes(keepId));
+    if (!group) return;
+    const removed = files.filter(f => group.includes(f.id) && f.id !== keepId);
+    const removedIds = removed.map(f => f.id);
+    removed.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    setFiles(prev => prev.filter(f => !removedIds.includes(f.id)));
+    setSelectedIds(prev => prev.filter(s => !removedIds.includes(s)));
+    addLog(`Kept ${files.find(f => f.id === keepId)?.file.name}, removed ${removed.length} near-duplicates: ${removed.map(f => f.file.name).join(', ')}`, 'info');
+  };
+
+  const handleMarkVariants = (fileIds: string[]) => {
+    setFiles(prev => prev.map(f => fileIds.includes(f.id) ? { ...f, isVariant: true } : f));
+    addLog(`Marked ${fileIds.length} files as intentional variants.`, 'info');
+  };
+
+  // --- VIDEO FRAMES ---
+  // Frames picked in the preview are reused on the next run instead of automatic sampling
+  const handleSaveFrames = (id: string, times: number[] | null, requeue: boolean) => {
+    setFiles(prev => prev.map(f => f.id !== id ? f : {
+      ...f,
+      frameTimes: times || f.frameTimes,
+      framesPinned: times !== null,
+      ...(requeue ? { status: ProcessingStatus.Pending } : {}),
+    }));
+    const name = files.find(f => f.id === id)?.file.name;
+    if (times === null) addLog(`${name}: Frames will be sampled automatically.`, 'info');
+    else addLog(`${name}: Using ${times.length} picked frames${requeue ? ', queued for regeneration' : ''}.`, 'info');
+  };
+
+  // --- PDF PAGE ---
+  // Page picked in the preview: used for the next analysis, the thumbnail and the fingerprint
+  const handleSelectPdfPage = async (id: string, page: number) => {
+    const item = files.find(f => f.id === id);
+    if (!item) return;
+    try {
+      const { thumbnail, info } = await renderPdfThumbnail(item.file, page);
+      signingRef.current.delete(id);
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, thumbnail, pdfInfo: info, signature: undefined } : f));
+      addLog(`${item.file.name}: Using page ${info.page} of ${info.pageCount}.`, 'info');
+    } catch {
+      addLog(`${item.file.name}: Could not render page ${page}.`, 'error');
+    }
+  };
+
+  // --- BULK SELECTION & EDITING ---
+  const handleSelectFile = (id: string, range: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    const shouldSelect = !selectedIds.includes(id);
+
+    // Ranges follow the on-screen order (series groups come first)
+    if (range && anchor && anchor !== id) {
+      const from = displayedFiles.findIndex(f => f.id === anchor);
+      const to = displayedFiles.findIndex(f => f.id === id);
+      if (from !== -1 && to !== -1) {
+        const rangeIds = displayedFiles.slice(Math.min(from, to), Math.max(from, to) + 1).map(f => f.id);
+        setSelectedIds(prev => shouldSelect
+          ? Array.from(new Set([...prev, ...rangeIds]))
+          : prev.filter(s => !rangeIds.includes(s)));
+        selectionAnchorRef.current = id;
+        return;
+      }
+    }
+
+    setSelectedIds(prev => shouldSelect ? [...prev, id] : prev.filter(s => s !== id));
+    selectionAnchorRef.current = id;
+  };
+
+  // Record tracked metadata changes; drop selection and history of files that disappeared
+  // (delete, project open, session restore, clear)
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const kept = prev.filter(id => files.some(f => f.id === id));
+      return kept.length === prev.length ? prev : kept;
+    });
+
+    const previous = committedMetadataRef.current;
+    const entries: HistoryEntry[] = [];
+    files.forEach(f => {
+      const before = previous.get(f.id);
+      const batch = historyBatchesRef.current.get(f.metadata);
+      if (!before || before === f.metadata || !batch || isSameMetadata(before, f.metadata)) return;
+      entries.push({
+        id: `${batch.id}:${f.id}`,
+        batchId: batch.id,
+        fileId: f.id,
+        time: batch.time,
+        source: batch.source,
+        label: batch.label,
+        changes: describeMetadataChange(before, f.metadata),
+        before,
+        after: f.metadata,
+      });
+    });
+    committedMetadataRef.current = new Map(files.map(f => [f.id, f.metadata]));
+
+    const known = new Set(files.map(f => f.id));
+    const gone = Array.from(previous.keys()).filter(id => !known.has(id));
+    if (entries.length === 0 && gone.length === 0) return;
+    setHistory(prev => entries.reduce(recordHistory, gone.length > 0 ? forgetFiles(prev, gone) : prev));
+  }, [files]);
+
+  const handleBulkSelect = (selector: BulkSelector) => {
+    // Scoped to what the grid shows (type filter)
+    setSelectedIds(selectFileIds(displayedFiles, selector));
+    selectionAnchorRef.current = null;
+  };
+
+  // Same path as a single edit: change English, clean keywords, then re-sync the translations
+  const handleBulkApply = async (op: BulkOperation) => {
+    const targets = files.filter(f => selectedIds.includes(f.id) && (f.status === ProcessingStatus.Completed || f.status === ProcessingStatus.Embedded));
+    if (targets.length === 0) {
+      addLog('Bulk edit: no finished files in the selection.', 'warning');
+      return;
+    }
+
+    const changed: { id: string; en: LocalizedContent }[] = [];
+    const updates = new Map<string, FileMetadata>();
+    let overTarget = 0;
+    targets.forEach(f => {
+      if (op.kind === 'category') {
+        if (f.metadata.category !== op.category) updates.set(f.id, { ...f.metadata, category: op.category });
+        return;
+      }
+      // Like a manual edit: added keywords are never silently dropped (see userKeywordOptions)
+      const edited = applyBulkOperation(f.metadata.en, op);
+      const en = { ...edited, keywords: cleanKeywordString(edited.keywords, userKeywordOptions(f.type, SOURCE_LANGUAGE)) };
+      if (en.title === f.metadata.en.title && en.keywords === f.metadata.en.keywords) return;
+      updates.set(f.id, { ...f.metadata, en });
+      changed.push({ id: f.id, en });
+      if (settings.slideKeyword > 0 && splitKeywords(en.keywords).length > settings.slideKeyword) overTarget++;
+    });
+
+    const batch = newHistoryBatch('user', `Bulk: ${describeBulkOperation(op)}`);
+    setFiles(prev => prev.map(f => updates.has(f.id) ? trackMetadata(f, updates.get(f.id)!, batch) : f));
+    addLog(`Bulk edit: ${describeBulkOperation(op)} → ${updates.size} of ${targets.length} files changed.`, updates.size > 0 ? 'success' : 'info');
+    if (overTarget > 0) {
+      addLog(`Bulk edit: ${overTarget} files now have more than ${settings.slideKeyword} keywords. Nothing was dropped; trim them (marked red) before export.`, 'warning');
+    }
+
+    // Translations follow English, one file at a time (background)
+    for (const { id, en } of changed) {
+      await syncTranslation(id, en, SOURCE_LANGUAGE);
+    }
+  };
+
+  const handleBulkRetry = () => {
+    const ids = files.filter(f => selectedIds.includes(f.id) && f.status !== ProcessingStatus.Processing).map(f => f.id);
+    setFiles(prev => prev.map(f => ids.includes(f.id) ? { ...f, status: ProcessingStatus.Pending, error: undefined } : f));
+    addLog(`Queued ${ids.length} selected files for generation.`, 'info');
+  };
+
+  const handleBulkDelete = () => {
+    const targets = files.filter(f => selectedIds.includes(f.id));
+    targets.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    setFiles(prev => prev.filter(f => !selectedIds.includes(f.id)));
+    setSelectedIds([]);
+    addLog(`Deleted ${targets.length} selected files.`, 'warning');
+  };
+
+  // --- SERIES DETECTION ---
+  // Fingerprint drawable files in the background (small batches, one state update per batch).
+  // Failures are not retried; those files simply stay out of any series.
+  const signingRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const pending = files.filter(f => !f.signature && !signingRef.current.has(f.id) && getSignatureSource(f));
+    if (pending.length === 0) return;
+    pending.forEach(f => signingRef.current.add(f.id));
+
+    (async () => {
+      const BATCH = 8;
+      for (let i = 0; i < pending.length; i += BATCH) {
+        const results = await Promise.all(pending.slice(i, i + BATCH).map(async f => {
+          try {
+            return [f.id, await computeImageSignature(getSignatureSource(f)!)] as const;
+          } catch {
+            return null;
+          }
+        }));
+        const signatures = new Map(results.filter((r): r is NonNullable<typeof r> => r !== null));
+        if (signatures.size > 0) {
+          setFiles(prev => prev.map(f => signatures.has(f.id) ? { ...f, signature: signatures.get(f.id) } : f));
+        }
+      }
+    })();
+  }, [files]);
+
+  // --- VIDEO INSPECTION ---
+  // Duration, dimensions, fps and audio of new (or restored) clips, read locally one at a time
+  const inspectingRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const pending = files.filter(f => f.type === FileType.Video && !f.videoInfo && !inspectingRef.current.has(f.id));
+    if (pending.length === 0) return;
+    pending.forEach(f => inspectingRef.current.add(f.id));
+
+    (async () => {
+      const results = new Map<string, VideoInfo>();
+      for (const f of pending) {
+        try {
+          results.set(f.id, await inspectVideo(f.file));
+        } catch (error) {
+          console.warn("Video inspection failed", f.file.name, error);
+        }
+      }
+      if (results.size === 0) return;
+      setFiles(prev => prev.map(f => results.has(f.id) ? { ...f, videoInfo: results.get(f.id) } : f));
+
+      const flagged = pending.filter(f => results.has(f.id) && getVideoWarnings(results.get(f.id)!, settings).length > 0);
+      if (flagged.length > 0) {
+        addLog(`${flagged.length} clips are below the agency minimums (${settings.videoMinDuration}s, ${settings.videoMinResolution}p): ${flagged.map(f => f.file.name).join(', ')}`, 'warning');
+      }
+    })();
+  }, [files]);
+
+  // Only recomputed when fingerprints change, not on every metadata edit
+  const signatureKey = files.map(f => `${f.id}:${f.signature?.dHash || ''}:${f.isVariant ? 'v' : ''}`).join('|');
+  const nearDuplicateGroups = useMemo(
+    () => findNearDuplicateGroups(files, settings.nearDuplicateThreshold),
+    [signatureKey, settings.nearDuplicateThreshold]
+  );
+  // Near-duplicates get their own group, not a series
+  const series = useMemo(() => {
+    const duplicateIds = new Set(nearDuplicateGroups.flat());
+    return detectSeries(files.filter(f => !duplicateIds.has(f.id)));
+  }, [signatureKey, nearDuplicateGroups]);
+
+  // Same path as a bulk edit: English changes, translations re-sync afterwards
+  const handleHarmonizeSeries = async (fileIds: string[]) => {
+    const targets = files.filter(f => fileIds.includes(f.id) && f.status === ProcessingStatus.Completed);
+    if (targets.length < 2) return;
+
+    const harmonized = harmonizeSeries(targets, settings.slideKeyword);
+    const batch = newHistoryBatch('user', 'Harmonized series');
+    const changed: { id: string; en: LocalizedContent }[] = [];
+    const updates = new Map<string, FileMetadata>();
+    targets.forEach(f => {
+      const metadata = harmonized.get(f.id);
+      if (!metadata) return;
+      const en = { ...metadata.en, keywords: cleanKeywordString(metadata.en.keywords, keywordOptions(f.type, SOURCE_LANGUAGE)) };
+      const next = { ...metadata, en };
+      if (isSameMetadata(next, f.metadata)) return;
+      updates.set(f.id, next);
+      if (en.keywords !== f.metadata.en.keywords) changed.push({ id: f.id, en });
+    });
+
+    setFiles(prev => prev.map(f => updates.has(f.id) ? trackMetadata(f, updates.get(f.id)!, batch) : f));
+    addLog(`Harmonized series: ${updates.size} of ${targets.length} files updated.`, updates.size > 0 ? 'success' : 'info');
+
+    for (const { id, en } of changed) {
+      await syncTranslation(id, en, SOURCE_LANGUAGE);
+    }
+  };
+
+  // --- UNDO / REDO ---
+  const newHistoryBatch = (source: HistorySource, label: string): HistoryBatch => ({ id: uuidv4(), time: Date.now(), source, label });
+
+  // Use inside setFiles updaters: sets the metadata and tags it with the batch, so the commit
+  // effect above records the change (tagging a fresh object is safe to replay)
+  const trackMetadata = (f: FileItem, metadata: FileMetadata, batch: HistoryBatch): FileItem => {
+    if (isSameMetadata(f.metadata, metadata)) return { ...f, metadata };
+    const tagged = { ...metadata };
+    historyBatchesRef.current.set(tagged, batch);
+    return { ...f, metadata: tagged };
+  };
+
+  // Global (last batch) or per-file (fileId) undo/redo. Restores snapshots without recording new entries.
+  const handleHistory = (direction: 'undo' | 'redo', fileId?: string) => {
+    const { state, entries } = direction === 'undo' ? takeUndo(history, fileId) : takeRedo(history, fileId);
+    if (entries.length === 0) return;
+    setHistory(state);
+
+    // Untagged copies: the commit effect must not record the restore as a new change
+    const snapshots = new Map(entries.map(e => [e.fileId, direction === 'undo' ? e.before : e.after]));
+    setFiles(prev => prev.map(f => snapshots.has(f.id) ? { ...f, metadata: { ...snapshots.get(f.id)! } } : f));
+
+    const fileLabel = entries.length === 1 ? files.find(f => f.id === entries[0].fileId)?.file.name : `${entries.length} files`;
+    addLog(`${direction === 'undo' ? 'Undo' : 'Redo'}: ${entries[0].label} (${fileLabel})`, 'info');
+  };
+
+  // Ctrl/Cmd+Z = undo, Ctrl/Cmd+Shift+Z or Ctrl+Y = redo (text fields keep their native undo)
+  const handleHistoryRef = useRef(handleHistory);
+  handleHistoryRef.current = handleHistory;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        handleHistoryRef.current(key === 'y' || e.shiftKey ? 'redo' : 'undo');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // --- MULTI LANGUAGE SYNC UPDATE LOGIC ---
+  const handleUpdateMetadata = async (id: string, field: 'title' | 'keywords' | 'category', rawValue: string, language: Language) => {
+    const file = files.find(f => f.id === id);
+
+    // 0. Manual keyword edits are normalized and deduped like generated ones (no top-up request),
+    // but nothing the user typed is cut: see userKeywordOptions
+    const value = field === 'keywords' && file
+      ? cleanKeywordString(rawValue, userKeywordOptions(file.type, language))
+      : rawValue;
+
     // 1. Immediate Local Update (Optimistic UI)
+    const batch = newHistoryBatch('user', field === 'category' ? 'Edited category' : `Edited ${field} (${getLanguageInfo(language).label})`);
     setFiles(prev => prev.map(f => {
       if (f.id !== id) return f;
       
-      const newMeta = { ...f.metadata };
-      
       if (field === 'category') {
-         newMeta.category = value; // Category is shared/global ID
-      } else {
-         // Update specific language slot
-         if (language === 'ENG') {
-           newMeta.en = { ...newMeta.en, [field]: value };
-         } else {
-           newMeta.ind = { ...newMeta.ind, [field]: value };
-         }
+        return trackMetadata(f, { ...f.metadata, category: value }, batch); // Category is shared/global ID
       }
-      return { ...f, metadata: newMeta };
+      // Update specific language slot
+      const current = getLocalizedContent(f.metadata, language);
+      return trackMetadata(f, setLocalizedContent(f.metadata, language, { ...current, [field]: value }), batch);
     }));
 
     // 2. Background Sync (Translation)
     if (field === 'title' || field === 'keywords') {
-      const file = files.find(f => f.id === id);
-      if (!file || apiKeys.length === 0) return;
+      if (!file) return;
 
-      const apiKey = apiKeys[Math.floor(Math.random() * apiKeys.length)];
+      const currentSourceMeta = { ...getLocalizedContent(file.metadata, language), [field]: value };
 
-      try {
-        const currentSourceMeta = language === 'ENG' 
-          ? { ...file.metadata.en, [field]: value } 
-          : { ...file.metadata.ind, [field]: value };
+      await syncTranslation(id, currentSourceMeta, language);
+    }
+  };
 
-        const translated = await translateMetadataContent(currentSourceMeta, language, apiKey);
+  // English cleanup of AI output also drops filler terms; blocklist terms are dropped in every language ('remove' mode)
+  const keywordOptions = (type: FileType, language: Language): KeywordProcessingOptions => ({
+    target: settings.slideKeyword,
+    language,
+    banned: language === SOURCE_LANGUAGE ? FILLER_KEYWORDS : [],
+    blocked: settings.blocklistAction === 'remove' ? getBlockedTerms(type, settings) : [],
+  });
 
-        setFiles(prev => prev.map(f => {
-          if (f.id !== id) return f;
-          const newMeta = { ...f.metadata };
-          
-          if (language === 'ENG') {
-            newMeta.ind = translated;
-          } else {
-            newMeta.en = translated;
-          }
-          return { ...f, metadata: newMeta };
-        }));
-        
-        addLog(`Synced edit: ${language} → ${language === 'ENG' ? 'IND' : 'ENG'} for ${file.file.name}`, 'info');
+  // Keywords the user typed (manual and bulk edits): no target cut and no filler filter, the
+  // editor flags the overflow instead. Blocklist terms still go in 'remove' mode (explicit rule).
+  const userKeywordOptions = (type: FileType, language: Language): KeywordProcessingOptions => ({
+    ...keywordOptions(type, language),
+    target: 0,
+    banned: [],
+  });
 
-      } catch (error) {
-        console.error("Sync translation failed", error);
+  // Translate the edited locale into every other active locale and store them (background, fail-safe).
+  // English edits fan out to all targets; edits in a translation also update English (source of truth).
+  const syncTranslation = async (id: string, source: LocalizedContent, language: Language) => {
+    const file = files.find(f => f.id === id);
+    if (!file || keyPool.length === 0) return;
+
+    const targets = getActiveLanguages(settings.targetLanguages).filter(code => code !== language);
+    if (targets.length === 0) return;
+
+    const apiKey = keyPool[Math.floor(Math.random() * keyPool.length)];
+
+    try {
+      const translated = await translateMetadataContent(source, language, targets, settings, apiKey);
+      recordKeyOutcome(apiKey, { ok: true });
+      if (Object.keys(translated).length === 0) {
+        addLog(`Translation sync for ${file.file.name} returned no usable text. Other languages keep their previous text.`, 'warning');
+        return;
       }
+      const targetLabels = Object.keys(translated).map(code => getLanguageInfo(code).label).join(', ');
+      const batch = newHistoryBatch('translation', `Synced ${getLanguageInfo(language).label} → ${targetLabels}`);
+
+      setFiles(prev => prev.map(f => {
+        if (f.id !== id) return f;
+        const metadata = Object.entries(translated).reduce(
+          (meta, [code, content]) => setLocalizedContent(meta, code, {
+            ...content,
+            keywords: cleanKeywordString(content.keywords, keywordOptions(f.type, code)),
+          }),
+          f.metadata
+        );
+        return trackMetadata(f, metadata, batch);
+      }));
+      
+      addLog(`Synced edit: ${getLanguageInfo(language).label} → ${targetLabels} for ${file.file.name}`, 'info');
+
+    } catch (error) {
+      console.error("Sync translation failed", error);
+      const message = error instanceof Error ? error.message : String(error);
+      recordKeyOutcome(apiKey, { ok: false, status: classifyKeyError(message), error: message });
+      addLog(`Translation sync failed for ${file.file.name}: ${message}. Other languages keep their previous text.`, 'warning');
     }
   };
 
+  // Cycle the card through English + configured target languages
   const handleToggleLanguage = (id: string) => {
-    setFileLanguages(prev => ({
-      ...prev,
-      [id]: prev[id] === 'IND' ? 'ENG' : 'IND'
-    }));
+    const languages = getActiveLanguages(settings.targetLanguages);
+    setFileLanguages(prev => {
+      const idx = languages.indexOf(prev[id] || SOURCE_LANGUAGE);
+      return { ...prev, [id]: languages[(idx + 1) % languages.length] };
+    });
   };
 
   const handleDownloadCSV = () => {
-    // Ensures English metadata is used even if UI shows IND
-    const filename = downloadCSV(files, settings.csvFilename);
-    addLog(`Downloaded CSV: ${filename} (English Standard)`, 'success');
+    // --- COMPLIANCE GATE ---
+    const errorFiles = files.filter(f => complianceIssues[f.id]?.some(i => i.severity === 'error'));
+    const warningFiles = files.filter(f => complianceIssues[f.id]?.some(i => i.severity === 'warning'));
+    if (errorFiles.length > 0) {
+      errorFiles.slice(0, 10).forEach(f => {
+        const messages = complianceIssues[f.id].filter(i => i.severity === 'error').map(i => i.message).join(' ');
+        addLog(`[Rules] ${f.file.name}: ${messages}`, 'error');
+      });
+      if (settings.complianceMode === 'block') {
+        addLog(`CSV download blocked: ${errorFiles.length} file(s) break agency rules. Fix them or switch to Warn.`, 'error');
+        return;
+      }
+      addLog(`${errorFiles.length} file(s) break agency rules; exporting anyway (Warn mode).`, 'warning');
+    } else if (warningFiles.length > 0) {
+      addLog(`${warningFiles.length} file(s) have rule warnings (see card badges).`, 'warning');
+    }
+
+    // Uses the export language from settings (English by default), never the card's UI language
+    const filenames = downloadCSV(files, settings.csvFilename, settings.exportProfiles, settings.exportLanguage);
+    const languageName = getLanguageInfo(settings.exportLanguage).name;
+    filenames.forEach(filename => addLog(`Downloaded CSV: ${filename} (${languageName})`, 'success'));
+  };
+
+  // Embed metadata into the JPEGs themselves (for agencies/DAMs that read IPTC/XMP)
+  const handleDownloadTaggedZip = async () => {
+    const targets = files.filter(f => f.status === ProcessingStatus.Completed && f.type === FileType.Image);
+    if (targets.length === 0) return;
+
+    addLog(`Embedding metadata into ${targets.length} images...`, 'info');
+    try {
+      const { fileName, written, skipped } = await downloadTaggedZip(targets, settings.csvFilename);
+      if (written > 0) {
+        addLog(`Downloaded ZIP: ${fileName} (${written} tagged JPEGs)`, 'success');
+      }
+      if (skipped.length > 0) {
+        addLog(`Skipped ${skipped.length} non-JPEG files: ${skipped.join(', ')}`, 'warning');
+      }
+    } catch (error) {
+      console.error(error);
+      addLog(`ZIP export failed: ${String(error)}`, 'error');
+    }
+  };
+
+  // --- CSV IMPORT (Merge edited/exported CSV back onto loaded files) ---
+  const handleImportCSV = async (csvFile: File) => {
+    let result;
+    try {
+      result = importCSV(await csvFile.text());
+    } catch (error) {
+      addLog(`CSV import failed: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      return;
+    }
+
+    // Match by filename (case-insensitive, first unused file wins for duplicate names)
+    const filesByName = new Map<string, FileItem[]>();
+    files.forEach(f => {
+      const key = f.file.name.toLowerCase();
+      filesByName.set(key, [...(filesByName.get(key) || []), f]);
+    });
+
+    const updates = new Map<string, FileMetadata>();
+    const unmatched: string[] = [];
+    result.rows.forEach(row => {
+      const target = filesByName.get(row.filename.toLowerCase())?.find(f => !updates.has(f.id));
+      if (!target) {
+        unmatched.push(row.filename);
+        return;
+      }
+      updates.set(target.id, {
+        ...target.metadata,
+        // Columns the layout doesn't have keep the current text
+        en: { title: row.title ?? target.metadata.en.title, keywords: row.keywords ?? target.metadata.en.keywords },
+        category: !row.categoryIds || row.categoryIds.includes(target.metadata.category)
+          ? target.metadata.category || row.categoryIds?.[0] || ''
+          : row.categoryIds[0],
+      });
+    });
+
+    const batch = newHistoryBatch('user', `Imported ${result.profile.label} CSV`);
+    setFiles(prev => prev.map(f => {
+      const metadata = updates.get(f.id);
+      if (!metadata) return f;
+      // Only a full title + keywords set counts as done; otherwise the file stays in its queue state
+      const isComplete = !!metadata.en.title.trim() && !!metadata.en.keywords.trim();
+      return { ...trackMetadata(f, metadata, batch), ...(isComplete ? { status: ProcessingStatus.Completed, error: undefined } : {}) };
+    }));
+
+    addLog(`Imported ${result.profile.label} CSV: ${updates.size} of ${result.rows.length} rows matched.`, updates.size > 0 ? 'success' : 'warning');
+    if (unmatched.length > 0) {
+      addLog(`Unmatched CSV rows (${unmatched.length}): ${unmatched.join(', ')}`, 'warning');
+    }
+    if (result.unknownCategories.length > 0) {
+      addLog(`Unknown categories kept unchanged: ${result.unknownCategories.join(', ')}`, 'warning');
+    }
+
+    // Imported English is the source of truth: refresh the translations (one at a time)
+    for (const [id, metadata] of updates) {
+      await syncTranslation(id, metadata.en, SOURCE_LANGUAGE);
+    }
+  };
+
+  // --- PROJECT SAVE / LOAD ---
+
+  const handleSaveProject = async (includeThumbnails: boolean) => {
+    const name = projectName.trim() || generateProjectName();
+    let thumbnails: Map<string, string> | undefined;
+
+    if (includeThumbnails) {
+      thumbnails = new Map();
+      for (const f of files) {
+        if (f.thumbnail) {
+          thumbnails.set(f.id, f.thumbnail);
+          continue;
+        }
+        if (f.type === FileType.Video) continue;
+        try {
+          thumbnails.set(f.id, await createImageThumbnail(f.file));
+        } catch {
+          // EPS/AI/PDF can't be drawn by the browser; saved without thumbnail
+        }
+      }
+    }
+
+    const manifest = buildProjectManifest(name, files, settings, thumbnails);
+    const fileName = projectFileName(name);
+    triggerDownload(new Blob([JSON.stringify(manifest, null, 2)], { type: 'application/json' }), fileName);
+    addLog(`Saved project: ${fileName} (${files.length} files)`, 'success');
+  };
+
+  const handleOpenProject = async (file: File) => {
+    try {
+      const { manifest, droppedSettings } = parseProjectManifest(await file.text());
+      setPendingProject(manifest);
+      setProjectName(manifest.name);
+      addLog(`Opened project "${manifest.name}" (${manifest.files.length} files). Select the original folder to re-link.`, 'info');
+      if (droppedSettings.length > 0) {
+        addLog(`Project settings with invalid values were ignored (defaults used): ${droppedSettings.join(', ')}`, 'warning');
+      }
+    } catch (error) {
+      addLog(`Failed to open project: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  };
+
+  // Re-link manifest metadata to the re-selected original files. Replaces the current batch.
+  const handleRelinkProject = (fileList: FileList) => {
+    if (!pendingProject) return;
+    const { matched, missing } = matchProjectFiles(pendingProject, Array.from(fileList));
+
+    if (matched.length === 0) {
+      addLog(`No files in the selected folder match project "${pendingProject.name}".`, 'error');
+      return;
+    }
+
+    files.forEach(f => URL.revokeObjectURL(f.previewUrl));
+    setFiles(matched.map(({ entry, file }) => ({
+      id: uuidv4(),
+      file,
+      relativePath: file.webkitRelativePath || entry.relativePath || file.name,
+      previewUrl: URL.createObjectURL(file),
+      thumbnail: entry.thumbnail,
+      type: entry.type,
+      status: entry.status,
+      metadata: normalizeMetadata(entry.metadata),
+      error: entry.error,
+    })));
+    setSettings(prev => ({ ...DEFAULT_SETTINGS, ...pendingProject.settings, persistApiKeys: prev.persistApiKeys }));
+    setFileLanguages({});
+    setPendingProject(null);
+
+    addLog(`Re-linked ${matched.length} of ${pendingProject.files.length} files for project "${pendingProject.name}".`, 'success');
+    if (missing.length > 0) {
+      addLog(`Missing ${missing.length} files: ${missing.map(m => m.name).join(', ')}`, 'warning');
+    }
   };
 
   // --- IMPROVED WORKER LOGIC (Round Robin + Smart Concurrency) ---
 
   const startProcessing = () => {
-    if (apiKeys.length === 0) {
-      alert("Please enter at least one API Key.");
-      addLog('Failed to start: No API Key provided.', 'error');
+    if (keyPool.length === 0) {
+      if (apiKeys.length === 0) {
+        alert("Please enter at least one API Key.");
+        addLog('Failed to start: No API Key provided.', 'error');
+      } else {
+        alert("No usable API Key: all keys are disabled, invalid or out of quota.");
+        addLog('Failed to start: all API keys are disabled, invalid or out of quota.', 'error');
+      }
       return;
     }
     
     // Identify targets: Pending OR Failed
-    const targetFiles = files.filter(f => f.status === ProcessingStatus.Pending || f.status === ProcessingStatus.Failed);
+    // Unresolved near-duplicates are held back until one is kept or they are marked as variants
+    const heldBack = new Set(nearDuplicateGroups.flat());
+    const queued = files.filter(f => f.status === ProcessingStatus.Pending || f.status === ProcessingStatus.Failed);
+    const targetFiles = queued.filter(f => !heldBack.has(f.id));
+    if (targetFiles.length < queued.length) {
+      addLog(`Holding back ${queued.length - targetFiles.length} near-duplicates. Keep one per group or mark them as variants.`, 'warning');
+    }
     
     if (targetFiles.length === 0) {
       return;
@@ -299,7 +1310,7 @@ const App: React.FC = () => {
 
     // SMART CONCURRENCY: 
     // CAP AT 10 WORKERS TO PREVENT HEAVINESS
-    const maxConcurrency = Math.min(10, Math.max(2, apiKeys.length * 2));
+    const maxConcurrency = Math.min(10, Math.max(2, keyPool.length * 2));
 
     addLog(`Spawning ${maxConcurrency} workers (Round Robin Strategy)...`, 'info');
 
@@ -326,26 +1337,37 @@ const App: React.FC = () => {
     // We look for a key that is NOT active AND NOT in cooldown.
     
     let selectedKey: string | null = null;
-    const totalKeys = apiKeys.length;
     const now = Date.now();
+    // Live pool: disabled, invalid and out-of-quota keys drop out while the queue runs
+    const livePool = buildKeyPool(apiKeysRef.current, provider.requiresApiKey, now);
+    const totalKeys = livePool.length;
 
-    // Clean up expired cooldowns
-    for (const [key, expiry] of cooldownKeysRef.current.entries()) {
-      if (now > expiry) {
-        cooldownKeysRef.current.delete(key);
+    if (totalKeys === 0) {
+      // Every key is dead: waiting won't help, stop with the file still pending
+      queueRef.current.unshift(fileId);
+      activeWorkersRef.current--;
+      if (processingRef.current) {
+        processingRef.current = false;
+        setIsProcessing(false);
+        addLog('Queue stopped: no usable API keys left (all disabled, invalid or out of quota).', 'error');
       }
+      return;
     }
 
+    const isCooling = (key: string) => {
+      const entry = apiKeysRef.current.find(k => k.key === key);
+      return entry ? getKeyStatus(entry, now) === 'cooldown' : keylessCooldownRef.current > now;
+    };
+
     // Try to find a key by iterating through the list
     for (let i = 0; i < totalKeys; i++) {
       // Get key at current rotation index
       const idx = (nextKeyIdxRef.current + i) % totalKeys;
-      const keyCandidate = apiKeys[idx];
+      const keyCandidate = livePool[idx];
 
       const isBusy = activeKeysRef.current.has(keyCandidate);
-      const isCooling = cooldownKeysRef.current.has(keyCandidate);
 
-      if (!isBusy && !isCooling) {
+      if (!isBusy && !isCooling(keyCandidate)) {
         selectedKey = keyCandidate;
         // Move the global pointer forward so the next worker picks the NEXT key (Backup logic)
         nextKeyIdxRef.current = (idx + 1) % totalKeys;
@@ -354,7 +1376,7 @@ const App: React.FC = () => {
     }
 
     // If no key found (All busy or cooling)
-    if (!selectedKey) {
+    if (selectedKey === null) {
       // Put file back at the FRONT (since we didn't even try it)
       queueRef.current.unshift(fileId);
       activeWorkersRef.current--;
@@ -371,52 +1393,59 @@ const App: React.FC = () => {
 
     let fileItem = files.find(f => f.id === fileId);
     
-    // Determine Key Number for Logs (1-based index)
-    const keyIndex = apiKeys.indexOf(selectedKey) + 1;
+    // Key label for logs (never the key itself)
+    const keyName = keyLabel(selectedKey);
 
     try {
       if (!fileItem) throw new Error("File not found in state");
 
-      const { metadata, thumbnail } = await generateMetadataForFile(fileItem, settings, selectedKey);
+      const { metadata, thumbnail, frameTimes, keywordShortfall, blockedTerms } = await generateMetadataForFile(fileItem, settings, selectedKey);
 
+      const batch = newHistoryBatch('ai', fileItem.enhanceExisting ? 'Enhanced' : 'Generated');
       setFiles(prev => prev.map(f => f.id === fileId ? { 
-        ...f, 
+        ...trackMetadata(f, metadata, batch), 
         status: ProcessingStatus.Completed, 
-        metadata,
-        thumbnail
+        thumbnail,
+        frameTimes: frameTimes || f.frameTimes
       } : f));
       
-      addLog(`Key ${keyIndex} [Success] ${fileItem.file.name}`, 'success');
+      recordKeyOutcome(selectedKey, { ok: true });
+      addLog(`Key ${keyName} [Success] ${fileItem.file.name}`, 'success');
+      if (blockedTerms) {
+        const verb = settings.blocklistAction === 'remove' ? 'Removed' : 'Flagged';
+        addLog(`${fileItem.file.name}: ${verb} blocked terms: ${blockedTerms.join(', ')}`, 'warning');
+      }
+      if (keywordShortfall) {
+        addLog(`${fileItem.file.name}: ${keywordShortfall} keyword(s) short of ${settings.slideKeyword} after top-up`, 'warning');
+      }
 
       // Release key
       activeKeysRef.current.delete(selectedKey);
 
-    } catch (error: any) {
+    } catch (error: unknown) {
       activeKeysRef.current.delete(selectedKey!); // Release logic handle
       
-      const errorMsg = String(error).toLowerCase();
+      const message = error instanceof Error ? error.message : String(error);
+      const errorMsg = message.toLowerCase();
       
-      // LOGIC UPDATE: Strict definition of Temporary vs Fatal
-      // 429 = Too Many Requests
-      // quota/403 = Key exhausted (Temporary for file, Fatal for key) -> Retry with other key
-      // overloaded = Server busy
-      // timeout / fetch failed = Network blip
-      const isTemporaryError = errorMsg.includes('429') || 
-                               errorMsg.includes('quota') || 
-                               errorMsg.includes('overloaded') || 
-                               errorMsg.includes('timeout') ||
-                               errorMsg.includes('fetch failed');
-
-      if (isTemporaryError) {
+      // LOGIC UPDATE: Strict definition of Temporary vs Fatal (see classifyKeyError)
+      // 429 / overloaded / timeout / fetch failed = Temporary -> key cools down 30s
+      // Daily quota / exhausted credit = Key done for today -> Retry with other key
+      // Invalid / revoked key = Key unusable -> Retry with other key
+      // Without a key (local server) only temporary errors are worth a retry
+      const problem = classifyKeyError(errorMsg);
+      const keyProblem = selectedKey || problem === 'cooldown' ? problem : null;
+      recordKeyOutcome(selectedKey!, { ok: false, status: keyProblem, error: message });
+
+      if (keyProblem) {
         // --- QUEUE LOGIC UPDATE (Point 2) ---
         // Push to BACK of queue
         queueRef.current.push(fileId);
         
-        // --- COOLDOWN LOGIC (Point 3) ---
-        // Add to cooldown for 30 seconds
-        cooldownKeysRef.current.set(selectedKey!, Date.now() + 30000);
-        
-        addLog(`Key ${keyIndex} Limited/Error. Cooling down 30s. File moved to end of queue.`, 'warning');
+        const reason = keyProblem === 'cooldown' ? 'Limited/Error. Cooling down 30s.'
+          : keyProblem === 'quota' ? 'is out of quota for today. Skipping it.'
+          : 'is invalid. Skipping it.';
+        addLog(`Key ${keyName} ${reason} File moved to end of queue.`, keyProblem === 'cooldown' ? 'warning' : 'error');
         setFiles(prev => prev.map(f => f.id === fileId ? { ...f, status: ProcessingStatus.Pending } : f));
 
       } else {
@@ -425,9 +1454,9 @@ const App: React.FC = () => {
         setFiles(prev => prev.map(f => f.id === fileId ? { 
           ...f, 
           status: ProcessingStatus.Failed, 
-          error: String(error) 
+          error: message 
         } : f));
-        addLog(`Key ${keyIndex} [Failed] ${fileItem?.file.name}: ${errorMsg}`, 'error');
+        addLog(`Key ${keyName} [Failed] ${fileItem?.file.name}: ${errorMsg}`, 'error');
       }
     }
 
@@ -452,24 +1481,100 @@ const App: React.FC = () => {
 
   // Helper values
   const totalFiles = files.length;
+  // Agency rule check on what would be exported (selected profiles + export language)
+  const complianceIssues = useMemo(
+    () => lintFiles(files, settings),
+    [files, settings.exportProfiles, settings.exportLanguage, settings.blocklistTerms, settings.blocklistDisabled]
+  );
+  // Autocomplete source for the keyword editor: every keyword in the batch, per language, most used first
+  const keywordSuggestions = useMemo(() => {
+    const counts: Record<Language, Map<string, number>> = {};
+    files.forEach(f => {
+      getActiveLanguages(settings.targetLanguages).forEach(code => {
+        const map = counts[code] || (counts[code] = new Map());
+        splitKeywords(getLocalizedContent(f.metadata, code).keywords).forEach(k => {
+          const keyword = k.toLowerCase();
+          map.set(keyword, (map.get(keyword) || 0) + 1);
+        });
+      });
+    });
+    return Object.fromEntries(Object.entries(counts).map(([code, map]) => [
+      code,
+      Array.from(map.entries()).sort((a, b) => b[1] - a[1]).map(([keyword]) => keyword),
+    ])) as Record<Language, string[]>;
+  }, [files, settings.targetLanguages]);
+
+  const complianceErrorCount = files.filter(f => complianceIssues[f.id]?.some(i => i.severity === 'error')).length;
+
   const completedCount = files.filter(f => f.status === ProcessingStatus.Completed).length;
   const failedCount = files.filter(f => f.status === ProcessingStatus.Failed).length;
   const pendingCount = files.filter(f => f.status === ProcessingStatus.Pending).length;
+  const embeddedCount = files.filter(f => f.status === ProcessingStatus.Embedded).length;
+  const completedImageCount = files.filter(f => f.status === ProcessingStatus.Completed && f.type === FileType.Image).length;
   
   const canGenerate = !isProcessing && (pendingCount > 0 || failedCount > 0);
 
   const getInputAccept = () => {
     switch (settings.selectedFileType) {
       case FileType.Video: return "video/*";
-      case FileType.Vector: return ".svg,.eps,.ai,.pdf";
-      case FileType.Image: default: return "image/*";
+      case FileType.Vector: return ".svg,.eps,.ai,.pdf,.jpg,.jpeg,.png"; // JPG/PNG only as EPS/AI companion previews
+      case FileType.Image: return "image/*";
+      default: return "image/*,video/*,.svg,.eps,.ai,.pdf"; // Auto: everything we can detect
     }
   };
 
   const getLanguage = (id: string): Language => {
-    return fileLanguages[id] || 'ENG';
+    const language = fileLanguages[id] || SOURCE_LANGUAGE;
+    // Language removed from settings: fall back to English
+    return getActiveLanguages(settings.targetLanguages).includes(language) ? language : SOURCE_LANGUAGE;
   };
 
+  // Types present in the batch (the grid filter only shows up for mixed batches)
+  const batchTypes = [FileType.Image, FileType.Video, FileType.Vector].filter(type => files.some(f => f.type === type));
+  const activeTypeFilter = typeFilter && batchTypes.includes(typeFilter) && batchTypes.length > 1 ? typeFilter : null;
+
+  // Grid groups: near-duplicates first (they need a decision), then each series, then everything else
+  // (upload order inside groups)
+  const nearDuplicateIds = new Set(nearDuplicateGroups.flat());
+  const groupedIds = new Set([...nearDuplicateIds, ...series.flatMap(s => s.fileIds)]);
+  const filesById = new Map(files.map(f => [f.id, f]));
+  const isShown = (f: FileItem) => !activeTypeFilter || f.type === activeTypeFilter;
+  const byIds = (ids: string[]) => ids.map(id => filesById.get(id)!).filter(f => f && isShown(f));
+  const displayGroups: { key: string; series?: Series; duplicates?: boolean; files: FileItem[] }[] = [
+    ...nearDuplicateGroups.map(ids => ({ key: `duplicates-${ids[0]}`, duplicates: true, files: byIds(ids) })),
+    ...series.map(s => ({ key: `series-${s.id}`, series: s, files: byIds(s.fileIds) })),
+    { key: 'ungrouped', files: files.filter(f => !groupedIds.has(f.id) && isShown(f)) },
+  ].filter(group => group.files.length > 0);
+  const displayedFiles = displayGroups.flatMap(g => g.files);
+
+  const renderFileCard = (file: FileItem) => (
+    <FileCard 
+      key={file.id} 
+      item={file} 
+      onDelete={handleDelete}
+      onUpdate={handleUpdateMetadata}
+      onRetry={(id) => {
+         setFiles(prev => prev.map(f => f.id === id ? { ...f, status: ProcessingStatus.Pending } : f));
+      }}
+      onPreview={(item) => setPreviewId(item.id)}
+      onEmbeddedAction={(id, action) => handleEmbeddedAction([id], action)}
+      language={getLanguage(file.id)}
+      onToggleLanguage={handleToggleLanguage}
+      issues={complianceIssues[file.id] || []}
+      selected={selectedIds.includes(file.id)}
+      onSelect={handleSelectFile}
+      history={history.past.filter(e => e.fileId === file.id)}
+      canRedo={history.future.some(e => e.fileId === file.id)}
+      onUndo={(id) => handleHistory('undo', id)}
+      onRedo={(id) => handleHistory('redo', id)}
+      onKeepDuplicate={nearDuplicateIds.has(file.id) ? handleKeepDuplicate : undefined}
+      videoWarnings={file.videoInfo ? getVideoWarnings(file.videoInfo, settings) : []}
+      keywordTarget={settings.slideKeyword}
+      keywordSuggestions={keywordSuggestions[getLanguage(file.id)] || []}
+      disabled={isProcessing}
+    />
+  );
+
   return (
     <div className="flex flex-col min-h-screen md:h-screen bg-gray-50 overflow-x-hidden">
       
@@ -514,13 +1619,37 @@ const App: React.FC = () => {
               
               {activeTab === 'metadata' && (
                 <>
-                  <ApiKeyPanel apiKeys={apiKeys} setApiKeys={handleSetApiKeys} isProcessing={isProcessing} />
+                  <ProviderPanel settings={settings} setSettings={setSettings} isProcessing={isProcessing} />
+                  <ApiKeyPanel
+                    apiKeys={apiKeys}
+                    now={currentTime.getTime()}
+                    onAddKeys={handleAddKeys}
+                    onUpdateKey={handleUpdateKey}
+                    onRemoveKey={handleRemoveKey}
+                    onValidateKey={handleValidateKey}
+                    persist={settings.persistApiKeys}
+                    onPersistChange={handlePersistKeysChange}
+                    isProcessing={isProcessing}
+                  />
                   <MetadataSettings settings={settings} setSettings={setSettings} isProcessing={isProcessing} />
+                  <PromptEditor settings={settings} setSettings={setSettings} isProcessing={isProcessing} />
+                  <BlocklistPanel settings={settings} setSettings={setSettings} isProcessing={isProcessing} />
+                  <ProjectPanel
+                    projectName={projectName}
+                    setProjectName={setProjectName}
+                    onSave={handleSaveProject}
+                    onOpen={handleOpenProject}
+                    pendingProject={pendingProject}
+                    onRelink={handleRelinkProject}
+                    onCancelRelink={() => setPendingProject(null)}
+                    hasFiles={totalFiles > 0}
+                    isProcessing={isProcessing}
+                  />
 
                   <div className="flex flex-col gap-3">
                     {/* Key attribute ensures React replaces the input when type changes, strictly clearing previous accept rules */}
                     <input key={`file-${settings.selectedFileType}`} ref={fileInputRef} type="file" multiple accept={getInputAccept()} onChange={handleFileUpload} className="hidden" disabled={isProcessing} />
-                    <input key={`folder-${settings.selectedFileType}`} ref={folderInputRef} type="file" multiple {...({ webkitdirectory: "", directory: "" } as any)} onChange={handleFileUpload} className="hidden" disabled={isProcessing} />
+                    <input key={`folder-${settings.selectedFileType}`} ref={folderInputRef} type="file" multiple webkitdirectory="" directory="" onChange={handleFileUpload} className="hidden" disabled={isProcessing} />
 
                     <div className="flex gap-2">
                       <button onClick={() => fileInputRef.current?.click()} disabled={isProcessing} className={`flex-1 py-3 rounded-lg font-bold shadow-sm transition-all flex items-center justify-center gap-2 ${isProcessing ? 'bg-gray-100 text-gray-400 cursor-not-allowed border border-gray-200' : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'}`}>
@@ -604,6 +1733,34 @@ const App: React.FC = () => {
                  >
                    <Download size={18} /> Download CSV
                  </button>
+                 {complianceErrorCount > 0 && (
+                   <p className={`-mt-1 text-xs text-center font-medium ${settings.complianceMode === 'block' ? 'text-red-600' : 'text-amber-600'}`}>
+                     {complianceErrorCount} file(s) break agency rules{settings.complianceMode === 'block' ? ' (export blocked)' : ''}
+                   </p>
+                 )}
+
+                 <button 
+                   onClick={handleDownloadTaggedZip}
+                   disabled={completedImageCount === 0 || isProcessing}
+                   className="w-full py-3 bg-white hover:bg-green-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:border-gray-200 disabled:cursor-not-allowed text-green-700 border border-green-300 font-bold rounded-lg shadow-sm transition-colors flex items-center justify-center gap-2"
+                   title="Write title & keywords into JPEG IPTC/XMP and download as ZIP"
+                 >
+                   <FileArchive size={18} /> Download Tagged JPEG (ZIP)
+                 </button>
+
+                 <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={(e) => {
+                   const csvFile = e.target.files?.[0];
+                   if (csvFile) handleImportCSV(csvFile);
+                   e.target.value = '';
+                 }} />
+                 <button 
+                   onClick={() => csvInputRef.current?.click()}
+                   disabled={totalFiles === 0 || isProcessing}
+                   className="w-full py-3 bg-white hover:bg-gray-50 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed text-gray-700 border border-gray-300 font-bold rounded-lg shadow-sm transition-colors flex items-center justify-center gap-2"
+                   title="Merge title, keywords and category from an exported/edited CSV (matched by filename)"
+                 >
+                   <FileUp size={18} /> Import CSV
+                 </button>
               </div>
 
             </div>
@@ -616,34 +1773,139 @@ const App: React.FC = () => {
             <div className="flex items-center gap-2 text-gray-700">
               <FolderOutput className="w-5 h-5 text-blue-500" />
               <h2 className="font-bold text-xl tracking-tight">OUTPUT RESULT</h2>
+              <div className="flex items-center gap-1 ml-2">
+                <button onClick={() => handleHistory('undo')} disabled={history.past.length === 0} className="p-1.5 rounded border bg-white border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed" title="Undo last change (Ctrl+Z)">
+                  <Undo2 size={14} />
+                </button>
+                <button onClick={() => handleHistory('redo')} disabled={history.future.length === 0} className="p-1.5 rounded border bg-white border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed" title="Redo (Ctrl+Shift+Z)">
+                  <Redo2 size={14} />
+                </button>
+              </div>
             </div>
+            {resumeCount > 0 && !isProcessing && (
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium text-blue-700">Interrupted queue: {resumeCount} files unfinished.</span>
+                <button onClick={() => { if (keyPool.length > 0) setResumeCount(0); startProcessing(); }} className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-blue-600 text-white border-blue-600 hover:bg-blue-700">Resume Queue</button>
+                <button onClick={() => setResumeCount(0)} className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-gray-500 border-gray-200 hover:bg-gray-50">Later</button>
+              </div>
+            )}
+            {embeddedCount > 0 && (
+              <div className="flex items-center gap-2 text-xs">
+                <span className="font-medium text-amber-700">{embeddedCount} with existing metadata:</span>
+                <button onClick={() => handleEmbeddedAction(files.map(f => f.id), 'keep')} disabled={isProcessing} className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-green-700 border-green-300 hover:bg-green-50 disabled:opacity-50">Keep All</button>
+                <button onClick={() => handleEmbeddedAction(files.map(f => f.id), 'enhance')} disabled={isProcessing} className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-blue-700 border-blue-300 hover:bg-blue-50 disabled:opacity-50">Enhance All</button>
+                <button onClick={() => handleEmbeddedAction(files.map(f => f.id), 'overwrite')} disabled={isProcessing} className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-red-600 border-red-200 hover:bg-red-50 disabled:opacity-50">Overwrite All</button>
+              </div>
+            )}
           </div>
 
-          <div className="flex-1 p-4 md:overflow-y-auto min-h-[50vh] md:min-h-0">
+          <div
+            className={`flex-1 p-4 md:overflow-y-auto min-h-[50vh] md:min-h-0 transition-colors ${isDragging ? 'bg-blue-50 ring-2 ring-inset ring-blue-400' : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+          >
+            {/* Import progress / last import summary */}
+            {importProgress ? (
+              <div className="mb-3 bg-white rounded-lg border border-blue-200 p-3 shadow-sm">
+                <div className="flex items-center justify-between text-sm font-medium text-blue-700">
+                  <span>{importProgress.label}...</span>
+                  <span className="tabular-nums">{importProgress.total > 0 ? `${importProgress.done} / ${importProgress.total}` : `${importProgress.done} found`}</span>
+                </div>
+                {importProgress.total > 0 && (
+                  <div className="mt-2 h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round((importProgress.done / importProgress.total) * 100)}%` }} />
+                  </div>
+                )}
+              </div>
+            ) : importSummary && (
+              <div className={`mb-3 flex items-center justify-between gap-2 rounded-lg border px-3 py-2 text-sm ${importSummary.accepted > 0 ? 'bg-green-50 border-green-200 text-green-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                <span><span className="font-medium">Import finished:</span> {describeImportSummary(importSummary)}</span>
+                <button onClick={() => setImportSummary(null)} className="p-1 rounded hover:bg-black/5" title="Dismiss">
+                  <X size={14} />
+                </button>
+              </div>
+            )}
             {files.length === 0 ? (
               <div className="h-full flex flex-col items-center justify-center text-gray-400 min-h-[300px]">
                 <UploadCloud size={64} className="mb-4 opacity-20" />
                 <p className="font-medium text-base">No files uploaded yet.</p>
-                <p className="text-sm mt-1">Select {settings.selectedFileType}s from the sidebar.</p>
+                <p className="text-sm mt-1">Select {isAutoMode(settings.selectedFileType) ? 'photos, videos or vectors' : `${settings.selectedFileType}s`} from the sidebar, drop files or folders here, or paste images.</p>
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 pb-20 md:pb-0">
-                {files.map(file => (
-                  <FileCard 
-                    key={file.id} 
-                    item={file} 
-                    onDelete={handleDelete}
-                    onUpdate={handleUpdateMetadata}
-                    onRetry={(id) => {
-                       setFiles(prev => prev.map(f => f.id === id ? { ...f, status: ProcessingStatus.Pending } : f));
-                    }}
-                    onPreview={setPreviewItem}
-                    language={getLanguage(file.id)}
-                    onToggleLanguage={handleToggleLanguage}
-                    disabled={isProcessing}
-                  />
+              <>
+              {/* Type filter (mixed batches) */}
+              {batchTypes.length > 1 && (
+                <div className="flex gap-2 p-1 bg-gray-100 rounded-lg w-fit mb-3">
+                  {[null, ...batchTypes].map(type => (
+                    <button
+                      key={type || 'all'}
+                      onClick={() => setTypeFilter(type)}
+                      className={`px-3 py-1 text-sm font-medium rounded-md transition-all ${
+                        activeTypeFilter === type ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
+                      }`}
+                    >
+                      {type || 'All'} <span className="text-xs text-gray-400 tabular-nums">{type ? files.filter(f => f.type === type).length : files.length}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              <BulkActionBar
+                files={files}
+                selectedCount={selectedIds.length}
+                onSelect={handleBulkSelect}
+                onApply={handleBulkApply}
+                onRetry={handleBulkRetry}
+                onDelete={handleBulkDelete}
+                disabled={isProcessing}
+              />
+              <div className="flex flex-col gap-6 pb-20 md:pb-0">
+                {displayGroups.map(group => (
+                  <div key={group.key} className={group.duplicates ? 'p-3 rounded-lg border border-amber-300 bg-amber-50/50' : group.series ? 'p-3 rounded-lg border border-indigo-200 bg-indigo-50/40' : ''}>
+                    {/* Near-duplicate header: resolve before generating */}
+                    {group.duplicates && (
+                      <div className="flex flex-wrap items-center gap-2 mb-3">
+                        <Copy className="w-4 h-4 text-amber-600" />
+                        <span className="text-sm font-semibold text-amber-700">Near-duplicates · {group.files.length} files</span>
+                        <span className="text-xs text-amber-600">Held back from generation until resolved</span>
+                        <span className="flex-1" />
+                        <button
+                          onClick={() => handleMarkVariants(group.files.map(f => f.id))}
+                          disabled={isProcessing}
+                          className="px-2 py-1 rounded border text-xs font-bold uppercase tracking-wide bg-white text-amber-700 border-amber-300 hover:bg-amber-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="These are intentional variants: keep all of them and generate each"
+                        >
+                          Mark as Variants
+                        </button>
+                      </div>
+                    )}
+                    {/* Series header (visually similar files) */}
+                    {group.series && (
+                      <div className="flex flex-wrap items-center gap-2 mb-3">
+                        <Layers className="w-4 h-4 text-indigo-500" />
+                        <span className="text-sm font-semibold text-indigo-700">Series · {group.files.length} files</span>
+                        <span className="flex-1" />
+                        <button onClick={() => { setSelectedIds(group.series!.fileIds); selectionAnchorRef.current = null; }} className="px-2 py-1 rounded border text-xs font-bold uppercase tracking-wide bg-white text-gray-600 border-gray-200 hover:bg-gray-50">Select</button>
+                        <button
+                          onClick={() => handleHarmonizeSeries(group.series!.fileIds)}
+                          disabled={isProcessing || group.files.filter(f => f.status === ProcessingStatus.Completed).length < 2}
+                          className="px-2 py-1 rounded border text-xs font-bold uppercase tracking-wide bg-indigo-600 text-white border-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Align shared core keywords and the category across the series (titles keep their specifics)"
+                        >
+                          Harmonize
+                        </button>
+                      </div>
+                    )}
+                    {!group.series && !group.duplicates && displayGroups.length > 1 && (
+                      <div className="text-sm font-semibold text-gray-500 mb-3">Other files</div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+                      {group.files.map(renderFileCard)}
+                    </div>
+                  </div>
                 ))}
               </div>
+              </>
             )}
           </div>
         </section>
@@ -655,7 +1917,13 @@ const App: React.FC = () => {
         </p>
       </footer>
 
-      <PreviewModal item={previewItem} onClose={() => setPreviewItem(null)} />
+      <PreviewModal
+        item={files.find(f => f.id === previewId) || null}
+        onClose={() => setPreviewId(null)}
+        onSaveFrames={handleSaveFrames}
+        onSelectPdfPage={handleSelectPdfPage}
+        disabled={isProcessing}
+      />
     </div>
   );
 };
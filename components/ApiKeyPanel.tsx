@@ -1,39 +1,173 @@
-import React from 'react';
-import { Key } from 'lucide-react';
+import React, { useState } from 'react';
+import { Key, Loader2, Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { ApiKeyEntry, ApiKeyStatus } from '../types';
+import { getKeyStatus, getRequestsToday, maskApiKey } from '../utils/apiKeys';
 
 interface Props {
-  apiKeys: string[];
-  setApiKeys: (keys: string[]) => void;
+  apiKeys: ApiKeyEntry[];
+  now: number; // Ticks every second, so cooldowns count down
+  onAddKeys: (text: string, label: string) => void;
+  onUpdateKey: (id: string, changes: Partial<Pick<ApiKeyEntry, 'label' | 'enabled'>>) => void;
+  onRemoveKey: (id: string) => void;
+  onValidateKey: (id: string) => Promise<void>;
+  persist: boolean;
+  onPersistChange: (persist: boolean) => void;
   isProcessing: boolean;
 }
 
-const ApiKeyPanel: React.FC<Props> = ({ apiKeys, setApiKeys, isProcessing }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const text = e.target.value;
-    // Split by newlines or commas and clean up
-    const keys = text.split(/[\n,]+/).map(k => k.trim()).filter(k => k.length > 0);
-    setApiKeys(keys);
+const STATUS_STYLES: Record<ApiKeyStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-50 text-green-700 border-green-200' },
+  cooldown: { label: 'Cooldown', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  invalid: { label: 'Invalid', className: 'bg-red-50 text-red-600 border-red-200' },
+  quota: { label: 'Quota', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+};
+
+const formatClock = (time: number) => new Date(time).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const ApiKeyPanel: React.FC<Props> = ({ apiKeys, now, onAddKeys, onUpdateKey, onRemoveKey, onValidateKey, persist, onPersistChange, isProcessing }) => {
+  const [newKey, setNewKey] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [validatingIds, setValidatingIds] = useState<string[]>([]);
+
+  const handleAdd = () => {
+    if (!newKey.trim()) return;
+    onAddKeys(newKey, newLabel.trim());
+    setNewKey('');
+    setNewLabel('');
+  };
+
+  const handleValidate = async (id: string) => {
+    setValidatingIds(prev => [...prev, id]);
+    try {
+      await onValidateKey(id);
+    } finally {
+      setValidatingIds(prev => prev.filter(v => v !== id));
+    }
   };
 
+  const enabledCount = apiKeys.filter(k => k.enabled).length;
+  const inputClass = "text-sm p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:bg-gray-100 disabled:text-gray-400";
+
   return (
     <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200">
       <div className="flex items-center gap-2 mb-2">
         <Key className="w-4 h-4 text-blue-500" />
         <h2 className="text-base font-semibold text-gray-700 uppercase tracking-wide">API Keys</h2>
+        <span className="ml-auto text-sm text-gray-400">{enabledCount}/{apiKeys.length} enabled</span>
       </div>
-      <textarea
-        className="w-full text-sm p-3 border rounded-md focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none bg-white"
-        rows={3}
-        placeholder="Enter API keys (one per line or comma separated)..."
-        onChange={handleChange}
-        disabled={isProcessing}
-        defaultValue={apiKeys.join('\n')}
-      />
-      <div className="mt-1 text-sm text-gray-400 text-right">
-        {apiKeys.length} keys loaded
+
+      {/* Key rows */}
+      {apiKeys.length > 0 && (
+        <div className="flex flex-col gap-2 mb-3">
+          {apiKeys.map(entry => {
+            const status = getKeyStatus(entry, now);
+            const style = STATUS_STYLES[status];
+            const isValidating = validatingIds.includes(entry.id);
+            return (
+              <div key={entry.id} className={`border rounded-md p-2 ${entry.enabled ? 'border-gray-200' : 'border-gray-100 bg-gray-50 opacity-70'}`}>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={entry.enabled}
+                    onChange={e => onUpdateKey(entry.id, { enabled: e.target.checked })}
+                    className="accent-blue-600 shrink-0"
+                    title={entry.enabled ? 'Disable this key' : 'Enable this key'}
+                  />
+                  <input
+                    type="text"
+                    value={entry.label}
+                    onChange={e => onUpdateKey(entry.id, { label: e.target.value })}
+                    className="flex-1 min-w-0 text-sm font-medium text-gray-700 bg-transparent border-b border-transparent hover:border-gray-200 focus:border-blue-400 focus:outline-none"
+                  />
+                  <span
+                    className={`px-1.5 py-0.5 text-xs font-bold uppercase tracking-wide rounded border shrink-0 ${style.className}`}
+                    title={entry.lastError || undefined}
+                  >
+                    {style.label}
+                  </span>
+                  <button
+                    onClick={() => handleValidate(entry.id)}
+                    disabled={isValidating}
+                    className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-50 shrink-0"
+                    title="Validate (one tiny test request)"
+                  >
+                    {isValidating ? <Loader2 size={14} className="animate-spin" /> : <ShieldCheck size={14} />}
+                  </button>
+                  <button
+                    onClick={() => onRemoveKey(entry.id)}
+                    disabled={isProcessing}
+                    className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-50 shrink-0"
+                    title="Remove key"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="mt-1 flex items-center justify-between gap-2 text-xs text-gray-400 pl-5">
+                  <span className="font-mono">{maskApiKey(entry.key)}</span>
+                  <span className="tabular-nums">
+                    <span className="text-green-600">{entry.successCount} ok</span> · <span className={entry.failureCount > 0 ? 'text-red-500' : ''}>{entry.failureCount} failed</span> · {getRequestsToday(entry, now)} today
+                  </span>
+                </div>
+                {status === 'cooldown' && entry.cooldownUntil && (
+                  <div className="mt-1 pl-5 text-xs text-amber-600">Cooling down until {formatClock(entry.cooldownUntil)}</div>
+                )}
+                {status === 'quota' && (
+                  <div className="mt-1 pl-5 text-xs text-orange-600">Daily quota used up. Retried tomorrow, or validate to check earlier.</div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add keys. A textarea, because an <input> drops the newlines of a pasted list and glues the
+          keys together. Enter adds, Shift+Enter starts a new line. */}
+      <div className="flex flex-col gap-2">
+        <input
+          type="text"
+          className={inputClass}
+          placeholder="Label (optional)"
+          value={newLabel}
+          onChange={e => setNewLabel(e.target.value)}
+          disabled={isProcessing}
+        />
+        <div className="flex gap-2">
+          <textarea
+            className={`${inputClass} flex-1 min-w-0 resize-none font-mono [-webkit-text-security:disc]`}
+            rows={2}
+            placeholder="Paste API key(s): one per line, or comma / space separated"
+            value={newKey}
+            onChange={e => setNewKey(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            disabled={isProcessing}
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isProcessing || !newKey.trim()}
+            className="px-2 rounded border border-blue-300 bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Add key(s)"
+          >
+            <Plus size={16} />
+          </button>
+        </div>
       </div>
+
+      <label className="mt-3 flex items-start gap-2 text-sm text-gray-500 cursor-pointer">
+        <input type="checkbox" checked={persist} onChange={e => onPersistChange(e.target.checked)} className="mt-0.5 accent-blue-600" />
+        <span>
+          Remember keys on this device
+          <span className="block text-xs text-gray-400">Stored unencrypted in this browser. Leave off on shared computers.</span>
+        </span>
+      </label>
     </div>
   );
 };
 
-export default ApiKeyPanel;
\ No newline at end of file
+export default ApiKeyPanel;
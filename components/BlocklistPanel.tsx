@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldBan, ChevronDown, ChevronUp } from 'lucide-react';
+import { AppSettings, BlocklistAction, FileType } from '../types';
+import { BRAND_TERMS, FILE_TYPE_TERMS, parseBlocklistInput, PUBLIC_FIGURE_TERMS, TECH_SPEC_TERMS } from '../utils/blocklist';
+
+interface Props {
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  isProcessing: boolean;
+}
+
+const BUILTIN_GROUPS: { label: string; terms: string[] }[] = [
+  { label: 'Brands', terms: BRAND_TERMS },
+  { label: 'Public figures', terms: PUBLIC_FIGURE_TERMS },
+  { label: 'Tech specs', terms: TECH_SPEC_TERMS },
+  { label: `${FileType.Image} only`, terms: FILE_TYPE_TERMS[FileType.Image] },
+  { label: `${FileType.Video} only`, terms: FILE_TYPE_TERMS[FileType.Video] },
+  { label: `${FileType.Vector} only`, terms: FILE_TYPE_TERMS[FileType.Vector] },
+];
+
+const BlocklistPanel: React.FC<Props> = ({ settings, setSettings, isProcessing }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Free-text draft; parsed into the settings list on blur
+  const [draft, setDraft] = useState(settings.blocklistTerms.join('\n'));
+
+  // Projects/sessions can replace the list from outside
+  useEffect(() => {
+    setDraft(settings.blocklistTerms.join('\n'));
+  }, [settings.blocklistTerms]);
+
+  const commitDraft = () => {
+    const terms = parseBlocklistInput(draft);
+    setSettings(prev => ({ ...prev, blocklistTerms: terms }));
+  };
+
+  const setAction = (action: BlocklistAction) => {
+    setSettings(prev => ({ ...prev, blocklistAction: action }));
+  };
+
+  // Built-in false positives (e.g. "lego" for a generic toy brick shot) are switched off per term
+  const toggleBuiltIn = (term: string) => {
+    setSettings(prev => ({
+      ...prev,
+      blocklistDisabled: prev.blocklistDisabled.includes(term)
+        ? prev.blocklistDisabled.filter(t => t !== term)
+        : [...prev.blocklistDisabled, term],
+    }));
+  };
+
+  const inputClass = "w-full text-sm p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500 transition-all disabled:bg-gray-100 disabled:text-gray-400";
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-col gap-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 w-full text-left">
+        <ShieldBan className="w-4 h-4 text-blue-500" />
+        <h2 className="flex-1 text-base font-semibold text-gray-700 uppercase tracking-wide">Blocklist</h2>
+        {settings.blocklistTerms.length > 0 && (
+          <span className="text-xs font-medium text-gray-400">{settings.blocklistTerms.length} custom</span>
+        )}
+        {settings.blocklistDisabled.length > 0 && (
+          <span className="text-xs font-medium text-amber-600">{settings.blocklistDisabled.length} off</span>
+        )}
+        {isOpen ? <ChevronUp size={16} className="text-gray-400" /> : <ChevronDown size={16} className="text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Enforcement after generation */}
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">Matches after generation</label>
+            <div className={`flex gap-2 p-1 bg-gray-100 rounded-lg w-full ${isProcessing ? 'opacity-60 cursor-not-allowed' : ''}`}>
+              {(['remove', 'flag'] as BlocklistAction[]).map(action => (
+                <button
+                  key={action}
+                  onClick={() => setAction(action)}
+                  disabled={isProcessing}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    settings.blocklistAction === action ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
+                  }`}
+                  title={action === 'remove' ? 'Strip blocked terms from titles and drop keywords containing them' : 'Keep the text and show a badge on the card'}
+                >
+                  {action === 'remove' ? 'Remove' : 'Flag only'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* User list */}
+          <div>
+            <label className="block text-sm font-medium text-gray-500 mb-1">Your terms (one per line or comma separated)</label>
+            <textarea
+              className={`${inputClass} font-mono text-xs resize-y`}
+              rows={4}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onBlur={commitDraft}
+              placeholder={'my client brand\nlocal celebrity'}
+              spellCheck={false}
+            />
+            <p className="mt-1 text-xs text-gray-400">Also sent to the AI as forbidden terms. Matched as whole words in every language.</p>
+          </div>
+
+          {/* Built-in lists: click a term to switch it off (or on again) */}
+          <details className="pt-2 border-t border-gray-100">
+            <summary className="text-sm font-medium text-gray-500 cursor-pointer select-none">Built-in terms</summary>
+            <p className="mt-1 text-xs text-gray-400">Click a term to stop blocking it, e.g. when it is a valid subject of your work.</p>
+            <div className="flex flex-col gap-2 mt-2">
+              {BUILTIN_GROUPS.map(group => (
+                <div key={group.label}>
+                  <span className="text-[10px] font-bold uppercase tracking-wide text-gray-400">{group.label}</span>
+                  <div className="flex flex-wrap gap-1 mt-0.5">
+                    {group.terms.map(term => {
+                      const isOff = settings.blocklistDisabled.includes(term);
+                      return (
+                        <button
+                          key={term}
+                          onClick={() => toggleBuiltIn(term)}
+                          disabled={isProcessing}
+                          className={`px-1.5 py-0.5 rounded border text-[10px] disabled:cursor-not-allowed ${
+                            isOff ? 'bg-white text-gray-400 border-dashed border-gray-300 line-through' : 'bg-gray-50 text-gray-600 border-gray-200 hover:border-red-300'
+                          }`}
+                          title={isOff ? 'Switched off: click to block it again' : 'Click to stop blocking this term'}
+                        >
+                          {term}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </details>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BlocklistPanel;
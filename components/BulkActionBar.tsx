@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ListChecks, RotateCcw, Trash2, X } from 'lucide-react';
+import { FileItem, ProcessingStatus } from '../types';
+import { CATEGORIES } from '../constants';
+import { BulkOperation, BulkSelector, buildFindPattern } from '../utils/bulkEdit';
+
+interface Props {
+  files: FileItem[];
+  selectedCount: number;
+  onSelect: (selector: BulkSelector) => void;
+  onApply: (op: BulkOperation) => void;
+  onRetry: () => void;
+  onDelete: () => void;
+  disabled: boolean;
+}
+
+type ActionKind = BulkOperation['kind'];
+
+const ACTIONS: { kind: ActionKind; label: string }[] = [
+  { kind: 'category', label: 'Set category' },
+  { kind: 'addKeywords', label: 'Add keywords' },
+  { kind: 'removeKeywords', label: 'Remove keywords' },
+  { kind: 'replace', label: 'Find & replace' },
+  { kind: 'titleAffix', label: 'Prepend / append title' },
+];
+
+const STATUSES = [ProcessingStatus.Pending, ProcessingStatus.Completed, ProcessingStatus.Failed, ProcessingStatus.Embedded];
+
+const BulkActionBar: React.FC<Props> = ({ files, selectedCount, onSelect, onApply, onRetry, onDelete, disabled }) => {
+  const [kind, setKind] = useState<ActionKind>('category');
+  const [category, setCategory] = useState('');
+  const [keywords, setKeywords] = useState('');
+  const [position, setPosition] = useState(0);
+  const [find, setFind] = useState('');
+  const [replace, setReplace] = useState('');
+  const [target, setTarget] = useState<'title' | 'keywords' | 'both'>('both');
+  const [useRegex, setUseRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [prefix, setPrefix] = useState('');
+  const [suffix, setSuffix] = useState('');
+
+  const buildOperation = (): BulkOperation | null => {
+    switch (kind) {
+      case 'category': return category ? { kind, category } : null;
+      case 'addKeywords': return keywords.trim() ? { kind, keywords, position } : null;
+      case 'removeKeywords': return keywords.trim() ? { kind, keywords } : null;
+      case 'replace': return find ? { kind, find, replace, target, useRegex, caseSensitive } : null;
+      case 'titleAffix': return prefix.trim() || suffix.trim() ? { kind, prefix: prefix.trim(), suffix: suffix.trim() } : null;
+    }
+  };
+
+  const operation = buildOperation();
+
+  // Validate the pattern up front: nothing is applied while it is broken
+  let patternError = '';
+  if (operation?.kind === 'replace') {
+    try {
+      buildFindPattern(operation);
+    } catch (e: unknown) {
+      patternError = e instanceof Error ? e.message : 'Invalid pattern';
+    }
+  }
+
+  const usedCategories = CATEGORIES.filter(c => files.some(f => f.metadata.category === c.id));
+  const inputClass = "text-xs p-1.5 border border-gray-300 rounded bg-white text-gray-900 focus:ring-1 focus:ring-blue-500 focus:outline-none disabled:bg-gray-100";
+  const buttonClass = "px-2 py-1.5 rounded border text-xs font-bold uppercase tracking-wide transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1";
+
+  return (
+    <div className="mb-4 p-3 bg-white rounded-lg shadow-sm border border-gray-200 flex flex-col gap-2">
+      {/* Selection */}
+      <div className="flex flex-wrap items-center gap-2">
+        <ListChecks className="w-4 h-4 text-blue-500" />
+        <span className="text-sm font-semibold text-gray-700">{selectedCount} selected</span>
+        <select
+          className={inputClass}
+          value=""
+          onChange={(e) => e.target.value && onSelect(e.target.value as BulkSelector)}
+        >
+          <option value="">Select…</option>
+          <option value="all">All files</option>
+          <optgroup label="By status">
+            {STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </optgroup>
+          {usedCategories.length > 0 && (
+            <optgroup label="By category">
+              {usedCategories.map(c => <option key={c.id} value={`category:${c.id}`}>{c.en}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {selectedCount > 0 && (
+          <button onClick={() => onSelect('none')} className={`${buttonClass} bg-white text-gray-500 border-gray-200 hover:bg-gray-50`} title="Clear selection">
+            <X size={12} /> Clear
+          </button>
+        )}
+        <span className="text-xs text-gray-400">Shift-click checkboxes to select a range.</span>
+      </div>
+
+      {/* Actions */}
+      {selectedCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-gray-100">
+          <select className={inputClass} value={kind} onChange={(e) => setKind(e.target.value as ActionKind)} disabled={disabled}>
+            {ACTIONS.map(a => <option key={a.kind} value={a.kind}>{a.label}</option>)}
+          </select>
+
+          {kind === 'category' && (
+            <select className={inputClass} value={category} onChange={(e) => setCategory(e.target.value)} disabled={disabled}>
+              <option value="" disabled>Category…</option>
+              {CATEGORIES.map(c => <option key={c.id} value={c.id}>{c.en}</option>)}
+            </select>
+          )}
+
+          {(kind === 'addKeywords' || kind === 'removeKeywords') && (
+            <input className={`${inputClass} flex-1 min-w-[10rem]`} placeholder="keyword one, keyword two" value={keywords} onChange={(e) => setKeywords(e.target.value)} disabled={disabled} />
+          )}
+          {kind === 'addKeywords' && (
+            <label className="flex items-center gap-1 text-xs text-gray-500">
+              at #
+              <input type="number" min="0" className={`${inputClass} w-14`} value={position} onChange={(e) => setPosition(Math.max(0, parseInt(e.target.value) || 0))} disabled={disabled} title="1 = first keyword, 0 = append at the end" />
+            </label>
+          )}
+
+          {kind === 'replace' && (
+            <>
+              <input className={`${inputClass} w-32 font-mono`} placeholder="find" value={find} onChange={(e) => setFind(e.target.value)} disabled={disabled} />
+              <input className={`${inputClass} w-32 font-mono`} placeholder="replace ($1…)" value={replace} onChange={(e) => setReplace(e.target.value)} disabled={disabled} />
+              <select className={inputClass} value={target} onChange={(e) => setTarget(e.target.value as 'title' | 'keywords' | 'both')} disabled={disabled}>
+                <option value="both">Title & keywords</option>
+                <option value="title">Title</option>
+                <option value="keywords">Keywords</option>
+              </select>
+              <label className="flex items-center gap-1 text-xs text-gray-500"><input type="checkbox" checked={useRegex} onChange={(e) => setUseRegex(e.target.checked)} disabled={disabled} /> Regex</label>
+              <label className="flex items-center gap-1 text-xs text-gray-500"><input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} disabled={disabled} /> Match case</label>
+            </>
+          )}
+
+          {kind === 'titleAffix' && (
+            <>
+              <input className={`${inputClass} w-36`} placeholder="prepend…" value={prefix} onChange={(e) => setPrefix(e.target.value)} disabled={disabled} />
+              <input className={`${inputClass} w-36`} placeholder="…append" value={suffix} onChange={(e) => setSuffix(e.target.value)} disabled={disabled} />
+            </>
+          )}
+
+          <button
+            onClick={() => operation && onApply(operation)}
+            disabled={disabled || !operation || !!patternError}
+            className={`${buttonClass} bg-blue-600 text-white border-blue-600 hover:bg-blue-700`}
+          >
+            Apply
+          </button>
+
+          <div className="flex-1" />
+          <button onClick={onRetry} disabled={disabled} className={`${buttonClass} bg-white text-blue-700 border-blue-300 hover:bg-blue-50`} title="Queue the selection for (re)generation">
+            <RotateCcw size={12} /> Retry
+          </button>
+          <button onClick={onDelete} disabled={disabled} className={`${buttonClass} bg-white text-red-600 border-red-200 hover:bg-red-50`} title="Delete the selected files">
+            <Trash2 size={12} /> Delete
+          </button>
+
+          {patternError && <p className="w-full text-xs text-red-600">Invalid pattern: {patternError}</p>}
+          <p className="w-full text-xs text-gray-400">Edits apply to English; translations are re-synced like single edits.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -1,9 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
-import { Edit2, Check, RefreshCw, Eye, Trash2, Loader2, Video as VideoIcon, Image as ImageIcon, PenTool, Languages } from 'lucide-react';
-import { FileItem, Language, ProcessingStatus, FileType } from '../types';
+import { Edit2, Check, RefreshCw, Eye, Trash2, Loader2, Video as VideoIcon, Image as ImageIcon, PenTool, Languages, FileCheck, History, Undo2, Redo2, Volume2, VolumeX } from 'lucide-react';
+import { FileItem, Language, ProcessingStatus, FileType, EmbeddedAction } from '../types';
 import { CATEGORIES } from '../constants';
 import { getCategoryName } from '../utils/helpers';
+import { getLanguageInfo, getLocalizedContent, SOURCE_LANGUAGE } from '../utils/locales';
+import { ComplianceIssue } from '../utils/compliance';
+import { splitKeywords } from '../utils/exportProfiles';
+import { HistoryEntry, HistorySource } from '../utils/history';
+import { formatDuration, resolutionLabel } from '../utils/videoInfo';
+import { isMissingCompanion } from '../utils/companions';
+import { formatArtboard } from '../services/pdfRenderer';
+import KeywordChipEditor from './KeywordChipEditor';
 
 interface Props {
   item: FileItem;
@@ -11,19 +19,52 @@ interface Props {
   onUpdate: (id: string, field: 'title' | 'keywords' | 'category', value: string, language: Language) => void; 
   onRetry: (id: string) => void;
   onPreview: (item: FileItem) => void;
+  onEmbeddedAction: (id: string, action: EmbeddedAction) => void;
   language: Language;
   onToggleLanguage: (id: string) => void; 
+  issues: ComplianceIssue[];
+  selected: boolean;
+  onSelect: (id: string, range: boolean) => void;
+  history: HistoryEntry[];
+  canRedo: boolean;
+  onUndo: (id: string) => void;
+  onRedo: (id: string) => void;
+  onKeepDuplicate?: (id: string) => void; // Only while the file is in an unresolved near-duplicate group
+  videoWarnings: string[]; // Clip below the configured agency minimums
+  keywordTarget: number;
+  keywordSuggestions: string[];
   disabled: boolean;
 }
 
+const SOURCE_STYLES: Record<HistorySource, string> = {
+  user: 'bg-blue-50 text-blue-600 border-blue-200',
+  ai: 'bg-violet-50 text-violet-600 border-violet-200',
+  translation: 'bg-emerald-50 text-emerald-600 border-emerald-200',
+};
+
+// Shown newest first; older entries stay undoable through the buttons
+const HISTORY_LIMIT = 8;
+
 const FileCard: React.FC<Props> = ({ 
   item, 
   onDelete, 
   onUpdate, 
   onRetry,
   onPreview,
+  onEmbeddedAction,
   language,
   onToggleLanguage,
+  issues,
+  selected,
+  onSelect,
+  history,
+  canRedo,
+  onUndo,
+  onRedo,
+  onKeepDuplicate,
+  videoWarnings,
+  keywordTarget,
+  keywordSuggestions,
   disabled 
 }) => {
   const [isEditing, setIsEditing] = useState(false);
@@ -34,8 +75,9 @@ const FileCard: React.FC<Props> = ({
   const [editCategory, setEditCategory] = useState('');
   
   // Derive current display values based on active Language
-  const currentTitle = language === 'ENG' ? item.metadata.en.title : item.metadata.ind.title;
-  const currentKeywords = language === 'ENG' ? item.metadata.en.keywords : item.metadata.ind.keywords;
+  const currentContent = getLocalizedContent(item.metadata, language);
+  const currentTitle = currentContent.title;
+  const currentKeywords = currentContent.keywords;
   const currentCategory = item.metadata.category;
 
   // Sync local state when entering edit mode or when item/language changes
@@ -66,6 +108,7 @@ const FileCard: React.FC<Props> = ({
   const isCompleted = item.status === ProcessingStatus.Completed;
   const isProcessing = item.status === ProcessingStatus.Processing;
   const isFailed = item.status === ProcessingStatus.Failed;
+  const isEmbedded = item.status === ProcessingStatus.Embedded;
 
   // Styling constants
   const labelClass = "text-[10px] font-bold px-1.5 rounded border uppercase inline-flex items-center select-none tracking-wide h-6 w-[70px] justify-center shrink-0";
@@ -77,7 +120,7 @@ const FileCard: React.FC<Props> = ({
   const FileTypeIcon = item.type === FileType.Video ? VideoIcon : item.type === FileType.Vector ? PenTool : ImageIcon;
 
   return (
-    <div className="bg-white rounded-lg shadow-sm border border-gray-200 flex flex-col overflow-hidden relative group hover:shadow-md transition-shadow">
+    <div className={`bg-white rounded-lg shadow-sm border flex flex-col overflow-hidden relative group hover:shadow-md transition-shadow ${selected ? 'border-blue-400 ring-2 ring-blue-200' : 'border-gray-200'}`}>
       
       {/* 1. TOP TOOLBAR (Buttons) - EQUAL WIDTH GRID - HORIZONTAL LAYOUT */}
       <div className="grid grid-cols-4 gap-2 p-2 bg-gray-50 border-b border-gray-200">
@@ -112,14 +155,14 @@ const FileCard: React.FC<Props> = ({
            onClick={() => !isEditing && onToggleLanguage(item.id)} 
            disabled={isEditing || disabled || !isCompleted}
            className={`flex flex-row items-center justify-center gap-2 py-1.5 rounded border transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
-             language === 'ENG' 
+             language === SOURCE_LANGUAGE
                ? 'bg-blue-50 text-blue-600 border-blue-200' 
                : 'bg-emerald-50 text-emerald-600 border-emerald-200'
            } hover:brightness-95`}
-           title="Toggle Language"
+           title={`Language: ${getLanguageInfo(language).name} (click to cycle)`}
         >
            <Languages size={14} />
-           <span className="text-[10px] font-bold uppercase tracking-tight truncate">{language}</span>
+           <span className="text-[10px] font-bold uppercase tracking-tight truncate">{getLanguageInfo(language).label}</span>
         </button>
 
         {/* Delete Button */}
@@ -136,10 +179,22 @@ const FileCard: React.FC<Props> = ({
 
       {/* 2. Filename & Status Row - Increased Border Visibility */}
       <div className="px-3 py-2 flex items-center gap-2 border-b border-gray-200 mb-1">
+         {/* Bulk selection (shift-click selects a range) */}
+         <input
+           type="checkbox"
+           checked={selected}
+           onChange={() => {}}
+           onClick={(e) => onSelect(item.id, e.shiftKey)}
+           className="w-4 h-4 shrink-0 accent-blue-600 cursor-pointer"
+           title="Select (shift-click for a range)"
+         />
+
          {/* Icon Status */}
          <div className="shrink-0">
             {isProcessing ? (
               <Loader2 className="animate-spin text-blue-500" size={16} />
+            ) : isEmbedded ? (
+              <FileCheck size={16} className="text-amber-500" />
             ) : isFailed ? (
               <button onClick={() => onRetry(item.id)} title="Retry" className="text-red-500 hover:text-red-700">
                 <RefreshCw size={16} />
@@ -151,12 +206,91 @@ const FileCard: React.FC<Props> = ({
 
          {/* Filename */}
          <div className="flex-1 min-w-0">
-           <h3 className={`text-sm font-medium truncate ${isFailed ? 'text-red-600' : 'text-gray-700'}`} title={item.file.name}>
+           <h3 className={`text-sm font-medium truncate ${isFailed ? 'text-red-600' : 'text-gray-700'}`} title={item.relativePath || item.file.name}>
              {item.file.name}
            </h3>
          </div>
       </div>
 
+      {/* 2a. Video Facts (read locally on import) */}
+      {item.videoInfo && (
+        <div className="px-3 pb-1 flex flex-wrap items-center gap-1 text-[10px] text-gray-500">
+          <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 tabular-nums">{formatDuration(item.videoInfo.duration)}</span>
+          <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 tabular-nums" title={`${item.videoInfo.width}×${item.videoInfo.height}`}>{resolutionLabel(item.videoInfo)}</span>
+          {item.videoInfo.fps && <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 tabular-nums">{item.videoInfo.fps} fps</span>}
+          {item.videoInfo.hasAudio !== undefined && (
+            <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 inline-flex items-center gap-1" title={item.videoInfo.hasAudio ? 'Has an audio track' : 'No audio track'}>
+              {item.videoInfo.hasAudio ? <Volume2 size={10} /> : <VolumeX size={10} />}
+            </span>
+          )}
+          {videoWarnings.map(warning => (
+            <span key={warning} className="px-1.5 py-0.5 rounded border font-bold bg-amber-50 text-amber-700 border-amber-200">{warning}</span>
+          ))}
+        </div>
+      )}
+
+      {/* 2a. Vector Companion Preview (EPS/AI are analysed through a same-name JPG/PNG) */}
+      {item.companion ? (
+        <div className="px-3 pb-1 flex items-center gap-1.5 text-[10px] text-gray-500">
+          {item.thumbnail && <img src={item.thumbnail} alt="" className="w-6 h-6 rounded border border-gray-200 object-cover bg-white" />}
+          <span className="truncate" title={item.companion.name}>Preview: {item.companion.name}</span>
+        </div>
+      ) : isMissingCompanion(item) && (
+        <div className="px-3 pb-1">
+          <span className="px-1.5 py-0.5 rounded border text-[10px] font-bold bg-amber-50 text-amber-700 border-amber-200" title="The AI can't read EPS/AI files. Upload a JPG/PNG with the same name so it analyses the real artwork.">
+            No JPG/PNG preview
+          </span>
+        </div>
+      )}
+
+      {/* 2a. PDF Facts (rendered locally on import) */}
+      {item.pdfInfo && (
+        <div className="px-3 pb-1 flex items-center gap-1 text-[10px] text-gray-500">
+          {item.thumbnail && <img src={item.thumbnail} alt="" className="w-6 h-6 rounded border border-gray-200 object-cover bg-white" />}
+          <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 tabular-nums" title={`Analysed page: ${item.pdfInfo.page}`}>
+            {item.pdfInfo.pageCount === 1 ? '1 page' : `p. ${item.pdfInfo.page}/${item.pdfInfo.pageCount}`}
+          </span>
+          <span className="px-1.5 py-0.5 rounded border border-gray-200 bg-gray-50 tabular-nums truncate">{formatArtboard(item.pdfInfo)}</span>
+        </div>
+      )}
+
+      {/* 2b. Compliance Badges (agency rule violations on the export language) */}
+      {issues.length > 0 && (
+        <div className="px-3 pb-1 flex flex-wrap gap-1">
+          {issues.map(issue => (
+            <span
+              key={`${issue.rule}|${issue.badge}`}
+              className={`text-[10px] font-bold px-1.5 py-0.5 rounded border tracking-tight ${
+                issue.severity === 'error' ? 'bg-red-50 text-red-600 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'
+              }`}
+              title={`${issue.profiles.join(', ')}: ${issue.message}`}
+            >
+              {issue.badge}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* 2c. Near-duplicate Decision */}
+      {onKeepDuplicate && (
+        <div className="mx-3 mb-1 p-2 rounded border border-amber-200 bg-amber-50 flex items-center gap-2">
+          <span className="flex-1 text-[10px] font-bold uppercase tracking-wide text-amber-700">Near-duplicate</span>
+          <button onClick={() => onKeepDuplicate(item.id)} disabled={disabled} className="px-2 py-1 rounded border text-[10px] font-bold uppercase tracking-tight bg-white text-green-700 border-green-300 hover:bg-green-50 disabled:opacity-50" title="Keep this file and remove the other files of the group">Keep This One</button>
+        </div>
+      )}
+
+      {/* 2d. Embedded Metadata Decision (IPTC/XMP found on import) */}
+      {isEmbedded && (
+        <div className="mx-3 mb-1 p-2 rounded border border-amber-200 bg-amber-50 flex flex-col gap-1.5">
+          <span className="text-[10px] font-bold uppercase tracking-wide text-amber-700">Existing metadata found</span>
+          <div className="grid grid-cols-3 gap-1.5">
+            <button onClick={() => onEmbeddedAction(item.id, 'keep')} disabled={disabled} className="py-1 rounded border text-[10px] font-bold uppercase tracking-tight bg-white text-green-700 border-green-300 hover:bg-green-50 disabled:opacity-50" title="Use the embedded metadata as-is">Keep</button>
+            <button onClick={() => onEmbeddedAction(item.id, 'enhance')} disabled={disabled} className="py-1 rounded border text-[10px] font-bold uppercase tracking-tight bg-white text-blue-700 border-blue-300 hover:bg-blue-50 disabled:opacity-50" title="Let the AI improve the embedded metadata">Enhance</button>
+            <button onClick={() => onEmbeddedAction(item.id, 'overwrite')} disabled={disabled} className="py-1 rounded border text-[10px] font-bold uppercase tracking-tight bg-white text-red-600 border-red-200 hover:bg-red-50 disabled:opacity-50" title="Discard and generate from scratch">Overwrite</button>
+          </div>
+        </div>
+      )}
+
       {/* 3. Metadata Content */}
       <div className="flex flex-col gap-1 px-3 pb-3 flex-1">
            
@@ -193,7 +327,7 @@ const FileCard: React.FC<Props> = ({
                    <option value="" disabled></option>
                    {CATEGORIES.map(cat => (
                      <option key={cat.id} value={cat.id}>
-                       {language === 'ENG' ? cat.en : cat.id_lang}
+                       {getCategoryName(cat.id, language)}
                      </option>
                    ))}
                  </select>
@@ -208,22 +342,66 @@ const FileCard: React.FC<Props> = ({
          {/* KEYWORDS SECTION */}
          <div className="flex flex-col gap-1 flex-1">
             <span className={`${labelClassFull} bg-violet-50 text-violet-600 border-violet-200`}>KEYWORDS</span>
-            <div className="h-[5.5rem] w-full relative">
+            <div className={`${isEditing ? 'h-[9rem]' : 'h-[5.5rem]'} w-full relative`}>
                 {isEditing ? (
-                  <textarea 
+                  <KeywordChipEditor
                     value={editKeywords}
-                    onChange={(e) => setEditKeywords(e.target.value)}
-                    className={`${textBaseClass} ${editClass} h-full`}
-                    spellCheck={false}
+                    onChange={setEditKeywords}
+                    target={keywordTarget}
+                    suggestions={keywordSuggestions}
+                    language={language}
                   />
                 ) : (
                   <div className={`${textBaseClass} ${viewClass} h-full text-gray-500 whitespace-normal break-words`}>
-                    {currentKeywords}
+                    {/* First 10 keywords carry the most weight: show them darker */}
+                    {splitKeywords(currentKeywords).map((keyword, index, list) => (
+                      <span key={index} className={index < 10 ? 'text-gray-800 font-medium' : ''}>
+                        {keyword}{index < list.length - 1 ? ', ' : ''}
+                      </span>
+                    ))}
                   </div>
                 )}
             </div>
          </div>
       </div>
+
+      {/* 4. Change History (per file undo/redo) */}
+      {(history.length > 0 || canRedo) && (
+        <details className="border-t border-gray-200 px-3 py-1.5 text-[10px]">
+          <summary className="flex items-center gap-1.5 cursor-pointer select-none text-gray-500 font-bold uppercase tracking-wide">
+            <History size={12} /> History ({history.length})
+            <span className="flex-1" />
+            <button
+              onClick={(e) => { e.preventDefault(); onUndo(item.id); }}
+              disabled={history.length === 0 || isEditing}
+              className="p-1 rounded border bg-white border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Undo last change on this file"
+            >
+              <Undo2 size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.preventDefault(); onRedo(item.id); }}
+              disabled={!canRedo || isEditing}
+              className="p-1 rounded border bg-white border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Redo on this file"
+            >
+              <Redo2 size={12} />
+            </button>
+          </summary>
+          <ul className="mt-1 flex flex-col gap-1 max-h-32 overflow-y-auto">
+            {history.slice(-HISTORY_LIMIT).reverse().map(entry => (
+              <li key={entry.id} className="flex items-start gap-1.5 text-gray-600">
+                <span className="text-gray-400 tabular-nums shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+                <span className={`px-1 rounded border font-bold uppercase shrink-0 ${SOURCE_STYLES[entry.source]}`}>{entry.source === 'translation' ? 'sync' : entry.source}</span>
+                <span className="min-w-0">
+                  {entry.label}
+                  {entry.changes && <span className="text-gray-400"> · {entry.changes}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
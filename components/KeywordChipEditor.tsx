@@ -0,0 +1,170 @@
+import React, { useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import { Language } from '../types';
+import { splitKeywords } from '../utils/exportProfiles';
+import { findDuplicateKeywords, joinKeywords, normalizeKeyword } from '../utils/keywords';
+
+interface Props {
+  value: string;                 // Comma-separated LocalizedContent.keywords
+  onChange: (value: string) => void;
+  target: number;                // settings.slideKeyword (0 = no target)
+  suggestions: string[];         // Keywords already used in the batch (same language)
+  language: Language;
+}
+
+// The first N keywords carry the most weight at the agencies
+const TOP_KEYWORDS = 10;
+const MAX_SUGGESTIONS = 6;
+
+const KeywordChipEditor: React.FC<Props> = ({ value, onChange, target, suggestions, language }) => {
+  const keywords = splitKeywords(value);
+  const [input, setInput] = useState('');
+  const [rejected, setRejected] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const commit = (list: string[]) => onChange(joinKeywords(list));
+
+  // Adds one or more (pasted "a, b, c") keywords; duplicates incl. plural/singular are refused
+  const addKeywords = (text: string) => {
+    const next = [...keywords];
+    const refused: string[] = [];
+    splitKeywords(text).map(normalizeKeyword).filter(Boolean).forEach(keyword => {
+      if (findDuplicateKeywords([...next, keyword], language).length > 0) refused.push(keyword);
+      else next.push(keyword);
+    });
+    if (next.length !== keywords.length) commit(next);
+    setRejected(refused.length > 0 ? `Already added: ${refused.join(', ')}` : '');
+    setInput('');
+  };
+
+  const removeAt = (index: number) => {
+    commit(keywords.filter((_, i) => i !== index));
+  };
+
+  // Dropped on a chip: takes its place (lands before it when moving left, after it when moving
+  // right, so the right neighbour is reachable). Dropped on the empty area (to = length): last.
+  const moveTo = (from: number, to: number) => {
+    const target = Math.min(to, keywords.length - 1);
+    if (from === target) return;
+    const next = [...keywords];
+    const [moved] = next.splice(from, 1);
+    next.splice(target, 0, moved);
+    commit(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === 'Enter' || e.key === ',') && input.trim()) {
+      e.preventDefault();
+      addKeywords(input);
+    } else if (e.key === 'Backspace' && !input && keywords.length > 0) {
+      removeAt(keywords.length - 1);
+    }
+  };
+
+  const query = normalizeKeyword(input);
+  const matches = query
+    ? suggestions
+        .filter(s => s.startsWith(query) && findDuplicateKeywords([...keywords, s], language).length === 0)
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const overflow = target > 0 ? Math.max(0, keywords.length - target) : 0;
+  const countClass = target <= 0
+    ? 'text-gray-400'
+    : keywords.length === target ? 'text-green-600' : keywords.length > target ? 'text-red-600' : 'text-amber-600';
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="h-full flex flex-col rounded border border-gray-300 bg-white focus-within:ring-1 focus-within:ring-blue-500">
+      <div
+        className="flex-1 flex flex-wrap content-start gap-1 p-1.5 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-200"
+        onClick={() => inputRef.current?.focus()}
+        onDragOver={(e) => { e.preventDefault(); if (dragIndex !== null) setDropIndex(keywords.length); }}
+        onDrop={(e) => { e.preventDefault(); if (dragIndex !== null) moveTo(dragIndex, keywords.length); endDrag(); }}
+      >
+        {keywords.map((keyword, index) => (
+          <React.Fragment key={`${keyword}-${index}`}>
+            {/* Divider after the top keywords */}
+            {index === TOP_KEYWORDS && (
+              <div className="w-full flex items-center gap-1 text-[9px] font-bold uppercase tracking-wide text-gray-300 select-none">
+                <span className="flex-1 border-t border-dashed border-gray-300" /> top {TOP_KEYWORDS} <span className="flex-1 border-t border-dashed border-gray-300" />
+              </div>
+            )}
+            <span
+              draggable
+              onDragStart={(e) => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDropIndex(index); }}
+              onDrop={(e) => { e.preventDefault(); e.stopPropagation(); if (dragIndex !== null) moveTo(dragIndex, index); endDrag(); }}
+              onDragEnd={endDrag}
+              className={`inline-flex items-center gap-0.5 pl-1.5 pr-0.5 py-0.5 rounded border text-[11px] leading-none cursor-grab select-none ${
+                target > 0 && index >= target ? 'bg-red-50 text-red-600 border-red-200 border-dashed'
+                  : index < TOP_KEYWORDS ? 'bg-violet-50 text-violet-700 border-violet-200 font-medium' : 'bg-gray-50 text-gray-600 border-gray-200'
+              } ${dragIndex === index ? 'opacity-40' : ''} ${dropIndex === index && dragIndex !== null && dragIndex !== index ? (dragIndex < index ? 'border-r-2 border-r-blue-500' : 'border-l-2 border-l-blue-500') : ''}`}
+              title={target > 0 && index >= target ? `#${index + 1}, over the target of ${target} (drag to reorder)` : `#${index + 1} (drag to reorder)`}
+            >
+              {keyword}
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); removeAt(index); }}
+                className="p-0.5 rounded text-gray-400 hover:text-red-500 hover:bg-red-50"
+                title="Remove keyword"
+              >
+                <X size={10} />
+              </button>
+            </span>
+          </React.Fragment>
+        ))}
+
+        <div className="relative flex-1 min-w-[6rem]">
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => { setInput(e.target.value); setRejected(''); }}
+            onKeyDown={handleKeyDown}
+            onPaste={(e) => {
+              const text = e.clipboardData.getData('text');
+              if (/[,;\n]/.test(text)) {
+                e.preventDefault();
+                addKeywords(text);
+              }
+            }}
+            onBlur={() => input.trim() && addKeywords(input)}
+            className="w-full text-[11px] px-1 py-0.5 bg-transparent focus:outline-none"
+            placeholder={keywords.length === 0 ? 'Type a keyword, Enter to add…' : 'Add…'}
+            spellCheck={false}
+          />
+          {/* Autocomplete from the batch */}
+          {matches.length > 0 && (
+            <ul className="absolute z-20 left-0 top-full mt-0.5 w-48 max-h-40 overflow-y-auto bg-white border border-gray-200 rounded shadow-md text-[11px]">
+              {matches.map(s => (
+                <li key={s}>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => { e.preventDefault(); addKeywords(s); }}
+                    className="w-full text-left px-2 py-1 hover:bg-blue-50 text-gray-700"
+                  >
+                    {s}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Live count */}
+      <div className="flex items-center justify-between gap-2 px-1.5 py-0.5 border-t border-gray-100 text-[10px]">
+        <span className="text-red-500 truncate">{rejected || (overflow > 0 ? `${overflow} over the target: remove some before export` : '')}</span>
+        <span className={`font-bold shrink-0 ${countClass}`}>{keywords.length}{target > 0 ? ` / ${target}` : ''}</span>
+      </div>
+    </div>
+  );
+};
+
+export default KeywordChipEditor;
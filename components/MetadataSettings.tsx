@@ -1,6 +1,11 @@
 import React from 'react';
-import { Settings, Image, Video, PenTool, FileText } from 'lucide-react';
-import { AppSettings, FileType } from '../types';
+import { Settings, Image, Video, PenTool, FileText, Check, Languages, Wand2 } from 'lucide-react';
+import { AppSettings, ComplianceMode, ExportProfileId, FileType, Language, UploadMode, VideoSamplingMode } from '../types';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import { EXPORT_PROFILES } from '../utils/exportProfiles';
+import { getActiveLanguages, getLanguageInfo, SOURCE_LANGUAGE } from '../utils/locales';
+import { clampFrameCount, MAX_VIDEO_FRAMES, MIN_VIDEO_FRAMES } from '../utils/videoSampling';
+import { AUTO_FILE_TYPE, isAutoMode } from '../utils/fileType';
 
 interface Props {
   settings: AppSettings;
@@ -10,7 +15,7 @@ interface Props {
 
 const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing }) => {
   
-  const handleTypeChange = (type: FileType) => {
+  const handleTypeChange = (type: UploadMode) => {
     if (isProcessing) return; // Prevent change during processing
     setSettings(prev => ({ ...prev, selectedFileType: type }));
   };
@@ -19,7 +24,7 @@ const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing
     setSettings(prev => ({ ...prev, [field]: value }));
   };
 
-  const handleNumberChange = (field: 'slideTitle' | 'slideKeyword', value: string) => {
+  const handleNumberChange = (field: 'slideTitle' | 'slideKeyword' | 'nearDuplicateThreshold' | 'videoFrameCount' | 'videoMinDuration' | 'videoMinResolution', value: string) => {
     let num = parseInt(value);
     if (isNaN(num)) num = 0;
     
@@ -30,11 +35,45 @@ const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing
     } else if (field === 'slideKeyword') {
       if (num > 50) num = 50; 
       if (num < 0) num = 0;
+    } else if (field === 'nearDuplicateThreshold') {
+      if (num > 100) num = 100;
+      if (num < 80) num = 80;
+    } else if (field === 'videoFrameCount') {
+      num = clampFrameCount(num);
+    } else if (field === 'videoMinDuration' || field === 'videoMinResolution') {
+      if (num < 0) num = 0;
     }
     
     setSettings(prev => ({ ...prev, [field]: num }));
   };
 
+  // Multi-select: at least one profile must stay selected
+  const handleToggleProfile = (id: ExportProfileId) => {
+    setSettings(prev => {
+      const isSelected = prev.exportProfiles.includes(id);
+      if (isSelected && prev.exportProfiles.length === 1) return prev;
+      const exportProfiles = isSelected
+        ? prev.exportProfiles.filter(p => p !== id)
+        : EXPORT_PROFILES.map(p => p.id).filter(p => p === id || prev.exportProfiles.includes(p));
+      return { ...prev, exportProfiles };
+    });
+  };
+
+  // Target languages: English is always generated; the export language must stay available
+  const handleToggleLanguage = (code: Language) => {
+    if (isProcessing) return;
+    setSettings(prev => {
+      const isSelected = prev.targetLanguages.includes(code);
+      const targetLanguages = isSelected
+        ? prev.targetLanguages.filter(l => l !== code)
+        : SUPPORTED_LANGUAGES.map(l => l.code).filter(l => l === code || prev.targetLanguages.includes(l));
+      const exportLanguage = getActiveLanguages(targetLanguages).includes(prev.exportLanguage) ? prev.exportLanguage : SOURCE_LANGUAGE;
+      return { ...prev, targetLanguages, exportLanguage };
+    });
+  };
+
+  const hasVideoSettings = settings.selectedFileType === FileType.Video || isAutoMode(settings.selectedFileType);
+
   const inputClass = "w-full text-base p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500 transition-all disabled:bg-gray-100 disabled:text-gray-400";
 
   return (
@@ -51,14 +90,15 @@ const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing
       <div className="pt-2">
         <label className="block text-sm font-medium text-gray-500 mb-1">File Type</label>
         <div className={`flex gap-2 p-1 bg-gray-100 rounded-lg w-full ${isProcessing ? 'opacity-60 cursor-not-allowed' : ''}`}>
-          {[FileType.Image, FileType.Video, FileType.Vector].map((type) => {
+          {([AUTO_FILE_TYPE, FileType.Image, FileType.Video, FileType.Vector] as UploadMode[]).map((type) => {
             const isActive = settings.selectedFileType === type;
-            const Icon = type === FileType.Image ? Image : type === FileType.Video ? Video : PenTool;
+            const Icon = type === FileType.Image ? Image : type === FileType.Video ? Video : type === FileType.Vector ? PenTool : Wand2;
             return (
               <button
                 key={type}
                 onClick={() => handleTypeChange(type)}
                 disabled={isProcessing}
+                title={isAutoMode(type) ? 'Mixed uploads: detect the type of each file' : `Only ${type} files`}
                 className={`flex-1 flex items-center justify-center gap-2 py-2 text-base font-medium rounded-md transition-all ${
                   isActive ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
                 } ${isProcessing ? 'cursor-not-allowed' : 'cursor-pointer'}`}
@@ -125,6 +165,97 @@ const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing
         </div>
       </div>
 
+      {/* Video Frame Sampling (Video only) */}
+      {hasVideoSettings && (
+        <div className="flex gap-3 pt-2 border-t border-gray-100">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-500 mb-1">Frame Sampling</label>
+            <div className="flex gap-2 p-1 bg-gray-100 rounded-lg w-full">
+              {(['even', 'scene'] as VideoSamplingMode[]).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setSettings(prev => ({ ...prev, videoSamplingMode: mode }))}
+                  disabled={isProcessing}
+                  className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                    settings.videoSamplingMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
+                  }`}
+                  title={mode === 'even' ? 'Frames spread evenly over the clip' : 'Scan the clip and pick frames at scene/motion changes (static clips use fewer frames)'}
+                >
+                  {mode === 'even' ? 'Even' : 'Scene'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="w-28">
+            <label className="block text-sm font-medium text-gray-500 mb-1">{settings.videoSamplingMode === 'scene' ? 'Max Frames' : 'Frames'} ({MIN_VIDEO_FRAMES}-{MAX_VIDEO_FRAMES})</label>
+            <input
+              type="number"
+              min={MIN_VIDEO_FRAMES}
+              max={MAX_VIDEO_FRAMES}
+              className={inputClass}
+              value={settings.videoFrameCount}
+              onChange={(e) => handleNumberChange('videoFrameCount', e.target.value)}
+              disabled={isProcessing}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Agency Minimums (Video only) - clips below are flagged on their card */}
+      {hasVideoSettings && (
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-500 mb-1">Min. Duration (s)</label>
+            <input
+              type="number"
+              min="0"
+              className={inputClass}
+              value={settings.videoMinDuration}
+              onChange={(e) => handleNumberChange('videoMinDuration', e.target.value)}
+            />
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-500 mb-1">Min. Resolution (p)</label>
+            <input
+              type="number"
+              min="0"
+              step="120"
+              className={inputClass}
+              value={settings.videoMinResolution}
+              onChange={(e) => handleNumberChange('videoMinResolution', e.target.value)}
+              title="Short side in pixels (1080 = Full HD); 0 disables the check"
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Metadata Languages (English + translations) */}
+      <div className="pt-2 border-t border-gray-100">
+        <div className="flex items-center gap-2 mb-1">
+           <Languages className="w-4 h-4 text-blue-500" />
+           <label className="block text-sm font-medium text-gray-500">Translation Languages</label>
+        </div>
+        <div className={`flex flex-wrap gap-1.5 ${isProcessing ? 'opacity-60 cursor-not-allowed' : ''}`}>
+          {SUPPORTED_LANGUAGES.filter(l => l.code !== SOURCE_LANGUAGE).map(lang => {
+            const isActive = settings.targetLanguages.includes(lang.code);
+            return (
+              <button
+                key={lang.code}
+                onClick={() => handleToggleLanguage(lang.code)}
+                disabled={isProcessing}
+                className={`px-2 py-1 text-xs font-bold rounded border transition-all ${
+                  isActive ? 'bg-emerald-50 text-emerald-700 border-emerald-300' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                } ${isProcessing ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                title={lang.name}
+              >
+                {lang.label}
+              </button>
+            );
+          })}
+        </div>
+        <p className="mt-1 text-xs text-gray-400">English is always generated; each selected language is translated from it.</p>
+      </div>
+
       {/* Custom CSV Filename - ALWAYS ENABLED */}
       <div className="pt-2 border-t border-gray-100">
         <div className="flex items-center gap-2 mb-1">
@@ -143,6 +274,84 @@ const MetadataSettings: React.FC<Props> = ({ settings, setSettings, isProcessing
           <span className="absolute right-3 text-gray-400 font-medium select-none pointer-events-none">.csv</span>
         </div>
       </div>
+
+      {/* Export Profiles (Agencies) - ALWAYS ENABLED */}
+      <div className="pt-2 border-t border-gray-100">
+        <label className="block text-sm font-medium text-gray-500 mb-1">Export Profiles</label>
+        <div className="grid grid-cols-2 gap-2">
+          {EXPORT_PROFILES.map(profile => {
+            const isActive = settings.exportProfiles.includes(profile.id);
+            return (
+              <button
+                key={profile.id}
+                onClick={() => handleToggleProfile(profile.id)}
+                className={`flex items-center gap-2 px-2 py-1.5 text-sm font-medium rounded border transition-all ${
+                  isActive ? 'bg-blue-50 text-blue-700 border-blue-300' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                }`}
+                title={`${profile.label}: max ${profile.maxKeywords} keywords, ${profile.maxTitleLength} chars title${profile.splitByType ? ', one CSV per file type in mixed batches' : ''}`}
+              >
+                <span className={`w-4 h-4 rounded border flex items-center justify-center shrink-0 ${isActive ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300'}`}>
+                  {isActive && <Check size={12} />}
+                </span>
+                <span className="truncate">{profile.label}</span>
+              </button>
+            );
+          })}
+        </div>
+        {settings.exportProfiles.length > 1 && (
+          <p className="mt-1 text-xs text-gray-400">One CSV per agency: {settings.csvFilename.trim() || 'IsaProMe'}_&lt;agency&gt;.csv</p>
+        )}
+      </div>
+
+      {/* Compliance Gate - ALWAYS ENABLED */}
+      <div className="pt-2 border-t border-gray-100">
+        <label className="block text-sm font-medium text-gray-500 mb-1">Rule Violations on Export</label>
+        <div className="flex gap-2 p-1 bg-gray-100 rounded-lg w-full">
+          {(['warn', 'block'] as ComplianceMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => setSettings(prev => ({ ...prev, complianceMode: mode }))}
+              className={`flex-1 py-1.5 text-sm font-medium rounded-md transition-all ${
+                settings.complianceMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
+              }`}
+              title={mode === 'warn' ? 'Download anyway and log the violations' : 'Refuse to download while any file has errors'}
+            >
+              {mode === 'warn' ? 'Warn' : 'Block'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Near-duplicate Threshold - ALWAYS ENABLED (applies to the current batch too) */}
+      <div className="pt-2 border-t border-gray-100">
+        <label className="flex justify-between text-sm font-medium text-gray-500 mb-1">
+          <span>Near-duplicate Similarity</span>
+          <span className="tabular-nums text-gray-700">{settings.nearDuplicateThreshold}%</span>
+        </label>
+        <input
+          type="range"
+          min="80"
+          max="100"
+          className="w-full accent-blue-600"
+          value={settings.nearDuplicateThreshold}
+          onChange={(e) => handleNumberChange('nearDuplicateThreshold', e.target.value)}
+          title="Uploads at least this visually similar are grouped as near-duplicates (100 = identical fingerprint only)"
+        />
+      </div>
+
+      {/* CSV Export Language - ALWAYS ENABLED */}
+      <div className="pt-2 border-t border-gray-100">
+        <label className="block text-sm font-medium text-gray-500 mb-1">CSV Export Language</label>
+        <select
+          className={inputClass}
+          value={settings.exportLanguage}
+          onChange={(e) => handleChange('exportLanguage', e.target.value)}
+        >
+          {getActiveLanguages(settings.targetLanguages).map(code => (
+            <option key={code} value={code}>{getLanguageInfo(code).name}</option>
+          ))}
+        </select>
+      </div>
     </div>
   );
 };
@@ -1,17 +1,212 @@
-
-import React from 'react';
-import { X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, RotateCcw, ImageOff, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { FileItem, FileType } from '../types';
+import { captureVideoFrames } from '../services/mediaPool';
+import { formatTimestamp, MAX_VIDEO_FRAMES } from '../utils/videoSampling';
+import { isMissingCompanion } from '../utils/companions';
+import { isPdf, renderPdfPage } from '../services/pdfRenderer';
 
 interface Props {
   item: FileItem | null;
   onClose: () => void;
+  // Video: save the picked frames (null = back to automatic sampling); requeue = mark for regeneration
+  onSaveFrames: (id: string, times: number[] | null, requeue: boolean) => void;
+  onSelectPdfPage: (id: string, page: number) => void; // PDF: page used for analysis and thumbnail
+  disabled: boolean;
 }
 
-const PreviewModal: React.FC<Props> = ({ item, onClose }) => {
+const frameKey = (time: number) => time.toFixed(2);
+
+// Frames the model analysed (or will analyse), with re-picking from the player position
+const FramePicker: React.FC<{
+  item: FileItem;
+  videoRef: React.RefObject<HTMLVideoElement>;
+  onSaveFrames: Props['onSaveFrames'];
+  disabled: boolean;
+}> = ({ item, videoRef, onSaveFrames, disabled }) => {
+  const saved = item.frameTimes || [];
+  const [draft, setDraft] = useState<number[]>(saved);
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  // Previews are captured once per moment and cached while the modal is open
+  useEffect(() => {
+    const missing = draft.filter(t => !previews[frameKey(t)]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    captureVideoFrames(item.file, missing, 160)
+      .then(frames => {
+        if (cancelled) return;
+        setPreviews(prev => ({ ...prev, ...Object.fromEntries(missing.map((t, i) => [frameKey(t), frames[i]])) }));
+      })
+      .catch(() => !cancelled && setError('Could not read frames from this clip.'));
+    return () => { cancelled = true; };
+  }, [draft.map(frameKey).join('|')]);
+
+  const addCurrentFrame = () => {
+    const time = videoRef.current?.currentTime;
+    if (time === undefined || draft.length >= MAX_VIDEO_FRAMES) return;
+    if (draft.some(t => Math.abs(t - time) < 0.1)) return;
+    setDraft([...draft, time].sort((a, b) => a - b));
+  };
+
+  const seekTo = (time: number) => {
+    if (videoRef.current) videoRef.current.currentTime = time;
+  };
+
+  const isChanged = draft.map(frameKey).join('|') !== saved.map(frameKey).join('|');
+
+  return (
+    <div className="w-0 min-w-full border-t border-gray-100 pt-2 flex flex-col gap-2">
+      <div className="flex items-center gap-2 text-xs">
+        <span className="font-bold uppercase tracking-wide text-gray-500">
+          {item.framesPinned ? 'Picked frames' : 'Analysed frames'} · {draft.length}/{MAX_VIDEO_FRAMES}
+        </span>
+        <span className="flex-1" />
+        <button
+          onClick={addCurrentFrame}
+          disabled={disabled || draft.length >= MAX_VIDEO_FRAMES}
+          className="flex items-center gap-1 px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-blue-600 border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+          title="Pause the player on a moment, then add it"
+        >
+          <Plus size={12} /> Current Frame
+        </button>
+        {isChanged && (
+          <button onClick={() => setDraft(saved)} className="p-1 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100" title="Discard changes">
+            <RotateCcw size={14} />
+          </button>
+        )}
+      </div>
+
+      {draft.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          Frames are sampled when the clip is generated. Add moments from the player to choose them yourself.
+        </p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {draft.map(time => (
+            <div key={frameKey(time)} className="relative shrink-0 group">
+              <button onClick={() => seekTo(time)} className="block w-28 h-16 rounded border border-gray-200 bg-gray-100 overflow-hidden" title="Show in player">
+                {previews[frameKey(time)] && <img src={previews[frameKey(time)]} alt={formatTimestamp(time)} className="w-full h-full object-cover" />}
+              </button>
+              <span className="absolute bottom-0.5 left-0.5 px-1 rounded bg-black/60 text-white text-[10px] tabular-nums">{formatTimestamp(time)}</span>
+              <button
+                onClick={() => setDraft(draft.filter(t => t !== time))}
+                disabled={disabled || draft.length === 1}
+                className="absolute top-0.5 right-0.5 p-0.5 rounded bg-white/90 text-gray-500 hover:text-red-500 opacity-0 group-hover:opacity-100 disabled:hidden"
+                title="Remove frame"
+              >
+                <X size={10} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex justify-end gap-2 text-xs">
+        {item.framesPinned && (
+          <button
+            onClick={() => onSaveFrames(item.id, null, false)}
+            disabled={disabled}
+            className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-gray-600 border-gray-200 hover:bg-gray-50 disabled:opacity-50"
+            title="Forget the picked frames and sample automatically on the next run"
+          >
+            Use Automatic
+          </button>
+        )}
+        <button
+          onClick={() => onSaveFrames(item.id, draft, false)}
+          disabled={disabled || !isChanged || draft.length === 0}
+          className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-blue-600 border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+        >
+          Save Frames
+        </button>
+        <button
+          onClick={() => onSaveFrames(item.id, draft, true)}
+          disabled={disabled || draft.length === 0}
+          className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-blue-600 text-white border-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          title="Save the frames and queue the clip for regeneration"
+        >
+          Save & Requeue
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// EPS/AI are shown through their same-name JPG/PNG (the browser can't draw them)
+const CompanionImage: React.FC<{ file: File; alt: string }> = ({ file, alt }) => {
+  const [url, setUrl] = useState('');
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url ? <img src={url} alt={alt} className="max-h-[30vh] max-w-full object-contain bg-white" /> : null;
+};
+
+// PDFs are rendered locally (an <img> can't show them); any page can be picked for the analysis
+const PdfPreview: React.FC<{ item: FileItem; onSelectPdfPage: Props['onSelectPdfPage']; disabled: boolean }> = ({ item, onSelectPdfPage, disabled }) => {
+  const selected = item.pdfInfo?.page || 1;
+  const [page, setPage] = useState(selected);
+  const [pageCount, setPageCount] = useState(item.pdfInfo?.pageCount || 1);
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl('');
+    renderPdfPage(item.file, page, 1200)
+      .then(({ data, info }) => {
+        if (cancelled) return;
+        setUrl(`data:image/jpeg;base64,${data}`);
+        setPageCount(info.pageCount);
+      })
+      .catch(() => !cancelled && setError('Could not render this PDF.'));
+    return () => { cancelled = true; };
+  }, [item.file, page]);
+
+  if (error) {
+    return <div className="w-72 h-40 flex items-center justify-center bg-gray-50 text-sm text-red-500">{error}</div>;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      {url ? (
+        <img src={url} alt={`${item.file.name} page ${page}`} className="max-h-[30vh] max-w-full object-contain bg-white" />
+      ) : (
+        <div className="w-72 h-40 flex items-center justify-center bg-gray-50"><Loader2 className="animate-spin text-blue-500" size={20} /></div>
+      )}
+      {pageCount > 1 && (
+        <div className="flex items-center gap-2 text-xs">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="p-1 rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40"><ChevronLeft size={14} /></button>
+          <span className="tabular-nums text-gray-600">Page {page} / {pageCount}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= pageCount} className="p-1 rounded border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40"><ChevronRight size={14} /></button>
+          {page === selected ? (
+            <span className="px-2 py-1 font-bold uppercase tracking-wide text-green-600">Analysed page</span>
+          ) : (
+            <button
+              onClick={() => onSelectPdfPage(item.id, page)}
+              disabled={disabled}
+              className="px-2 py-1 rounded border font-bold uppercase tracking-wide bg-white text-blue-600 border-blue-200 hover:bg-blue-50 disabled:opacity-50"
+              title="Use this page for the analysis and the thumbnail"
+            >
+              Use This Page
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PreviewModal: React.FC<Props> = ({ item, onClose, onSaveFrames, onSelectPdfPage, disabled }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
   if (!item) return null;
 
   const isVector = item.type === FileType.Vector;
+  const isVideo = item.type === FileType.Video;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-in fade-in duration-200" onClick={onClose}>
@@ -34,12 +229,22 @@ const PreviewModal: React.FC<Props> = ({ item, onClose }) => {
         </button>
 
         <div className="overflow-hidden rounded flex items-center justify-center shrink-0">
-           {item.file.type.startsWith('video') ? (
+           {isVideo ? (
              <video 
+               ref={videoRef}
                src={item.previewUrl} 
                controls 
                className="max-h-[30vh] max-w-full object-contain"
              />
+           ) : isVector && isPdf(item.file) ? (
+             <PdfPreview item={item} onSelectPdfPage={onSelectPdfPage} disabled={disabled} />
+           ) : item.companion ? (
+             <CompanionImage file={item.companion} alt={item.file.name} />
+           ) : isMissingCompanion(item) ? (
+             <div className="w-72 h-40 flex flex-col items-center justify-center gap-2 bg-gray-50 text-gray-400 text-sm text-center px-4">
+               <ImageOff size={28} />
+               No preview: upload a JPG/PNG with the same name next to this file.
+             </div>
            ) : (
             <img 
               src={item.previewUrl} 
@@ -57,6 +262,17 @@ const PreviewModal: React.FC<Props> = ({ item, onClose }) => {
         <div className="text-center border-t border-gray-100 pt-2 w-0 min-w-full">
            <h3 className="text-base font-medium text-gray-700 truncate px-2">{item.file.name}</h3>
         </div>
+
+        {/* Video: frames sent to the AI (keyed so a reopened clip starts from its saved frames) */}
+        {isVideo && (
+          <FramePicker
+            key={`${item.id}:${(item.frameTimes || []).map(frameKey).join('|')}`}
+            item={item}
+            videoRef={videoRef}
+            onSaveFrames={onSaveFrames}
+            disabled={disabled}
+          />
+        )}
       </div>
     </div>
   );
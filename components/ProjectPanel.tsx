@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { FolderKanban, Save, FolderOpen, Link2, X } from 'lucide-react';
+import { ProjectManifest, PROJECT_EXTENSION } from '../utils/project';
+
+interface Props {
+  projectName: string;
+  setProjectName: (name: string) => void;
+  onSave: (includeThumbnails: boolean) => void;
+  onOpen: (file: File) => void;
+  pendingProject: ProjectManifest | null;
+  onRelink: (files: FileList) => void;
+  onCancelRelink: () => void;
+  hasFiles: boolean;
+  isProcessing: boolean;
+}
+
+const ProjectPanel: React.FC<Props> = ({
+  projectName,
+  setProjectName,
+  onSave,
+  onOpen,
+  pendingProject,
+  onRelink,
+  onCancelRelink,
+  hasFiles,
+  isProcessing
+}) => {
+  const [includeThumbnails, setIncludeThumbnails] = useState(false);
+  const openInputRef = useRef<HTMLInputElement>(null);
+  const relinkInputRef = useRef<HTMLInputElement>(null);
+
+  const buttonClass = "flex-1 py-2 rounded border text-sm font-bold uppercase tracking-wide flex items-center justify-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <FolderKanban className="w-4 h-4 text-blue-500" />
+        <h2 className="text-base font-semibold text-gray-700 uppercase tracking-wide">Project</h2>
+      </div>
+
+      <input
+        type="text"
+        className="w-full text-base p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500 transition-all"
+        placeholder="Project name..."
+        value={projectName}
+        onChange={(e) => setProjectName(e.target.value)}
+      />
+
+      <label className="flex items-center gap-2 text-sm text-gray-500 select-none cursor-pointer">
+        <input type="checkbox" checked={includeThumbnails} onChange={(e) => setIncludeThumbnails(e.target.checked)} />
+        Include thumbnails (bigger file)
+      </label>
+
+      <input
+        ref={openInputRef}
+        type="file"
+        accept={`${PROJECT_EXTENSION},.json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onOpen(file);
+          e.target.value = '';
+        }}
+      />
+      <input
+        ref={relinkInputRef}
+        type="file"
+        multiple
+        webkitdirectory="" directory=""
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files) onRelink(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      <div className="flex gap-2">
+        <button onClick={() => onSave(includeThumbnails)} disabled={!hasFiles || isProcessing} className={`${buttonClass} bg-white text-blue-700 border-blue-300 hover:bg-blue-50`}>
+          <Save size={14} /> Save
+        </button>
+        <button onClick={() => openInputRef.current?.click()} disabled={isProcessing} className={`${buttonClass} bg-white text-gray-700 border-gray-300 hover:bg-gray-50`}>
+          <FolderOpen size={14} /> Open
+        </button>
+      </div>
+
+      {/* Step 2 of opening: re-link metadata to the original files */}
+      {pendingProject && (
+        <div className="p-2 rounded border border-amber-200 bg-amber-50 flex flex-col gap-2">
+          <p className="text-sm text-amber-800">
+            <span className="font-bold">{pendingProject.name}</span> ({pendingProject.files.length} files). Select the folder with the original files to re-link.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => relinkInputRef.current?.click()} disabled={isProcessing} className={`${buttonClass} bg-amber-500 text-white border-amber-500 hover:bg-amber-600`}>
+              <Link2 size={14} /> Select Folder
+            </button>
+            <button onClick={onCancelRelink} className={`${buttonClass} flex-none px-3 bg-white text-gray-500 border-gray-200 hover:bg-gray-50`} title="Cancel">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,172 @@
+import React, { useRef, useState } from 'react';
+import { MessageSquareText, Plus, Copy, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { AppSettings, FileType, PromptPreset } from '../types';
+import { BUILTIN_PRESET, BUILTIN_PRESET_ID, PROMPT_PLACEHOLDERS, buildPromptVariables, getAllPresets, renderPromptTemplate } from '../utils/promptTemplates';
+
+interface Props {
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  isProcessing: boolean;
+}
+
+const FILE_TYPES = [FileType.Image, FileType.Video, FileType.Vector];
+
+const PromptEditor: React.FC<Props> = ({ settings, setSettings, isProcessing }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState(BUILTIN_PRESET_ID);
+  const [previewType, setPreviewType] = useState<FileType>(FileType.Image);
+  const templateRef = useRef<HTMLTextAreaElement>(null);
+
+  const presets = getAllPresets(settings);
+  const editing = presets.find(p => p.id === editingId) || BUILTIN_PRESET;
+  const isBuiltIn = editing.id === BUILTIN_PRESET_ID;
+
+  const updatePreset = (changes: Partial<PromptPreset>) => {
+    if (isBuiltIn) return;
+    setSettings(prev => ({
+      ...prev,
+      promptPresets: prev.promptPresets.map(p => p.id === editing.id ? { ...p, ...changes } : p),
+    }));
+  };
+
+  const createPreset = (source: PromptPreset, name: string) => {
+    const preset: PromptPreset = { id: uuidv4(), name, template: source.template };
+    setSettings(prev => ({ ...prev, promptPresets: [...prev.promptPresets, preset] }));
+    setEditingId(preset.id);
+  };
+
+  const deletePreset = () => {
+    if (isBuiltIn) return;
+    setSettings(prev => ({
+      ...prev,
+      promptPresets: prev.promptPresets.filter(p => p.id !== editing.id),
+      // File types using the deleted preset fall back to the built-in one
+      promptPresetByType: Object.fromEntries(
+        FILE_TYPES.map(t => [t, prev.promptPresetByType[t] === editing.id ? BUILTIN_PRESET_ID : prev.promptPresetByType[t]])
+      ) as Record<FileType, string>,
+    }));
+    setEditingId(BUILTIN_PRESET_ID);
+  };
+
+  // Insert {{placeholder}} at the cursor position
+  const insertPlaceholder = (key: string) => {
+    if (isBuiltIn) return;
+    const textarea = templateRef.current;
+    const token = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? editing.template.length;
+    const end = textarea?.selectionEnd ?? editing.template.length;
+    updatePreset({ template: editing.template.slice(0, start) + token + editing.template.slice(end) });
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const preview = renderPromptTemplate(editing.template, buildPromptVariables(previewType, settings));
+
+  const inputClass = "w-full text-sm p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500 transition-all disabled:bg-gray-100 disabled:text-gray-400";
+  const iconButtonClass = "p-2 rounded border bg-white border-gray-200 text-gray-600 hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-col gap-3">
+      <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 w-full text-left">
+        <MessageSquareText className="w-4 h-4 text-blue-500" />
+        <h2 className="flex-1 text-base font-semibold text-gray-700 uppercase tracking-wide">Prompt Templates</h2>
+        {isOpen ? <ChevronUp size={16} className="text-gray-400" /> : <ChevronDown size={16} className="text-gray-400" />}
+      </button>
+
+      {isOpen && (
+        <>
+          {/* Default preset per File Type */}
+          <div className="grid grid-cols-3 gap-2">
+            {FILE_TYPES.map(type => (
+              <div key={type}>
+                <label className="block text-xs font-medium text-gray-500 mb-1">{type}</label>
+                <select
+                  className={`${inputClass} !p-1`}
+                  value={settings.promptPresetByType[type]}
+                  onChange={(e) => setSettings(prev => ({ ...prev, promptPresetByType: { ...prev.promptPresetByType, [type]: e.target.value } }))}
+                  disabled={isProcessing}
+                >
+                  {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Preset Picker + Actions */}
+          <div className="flex gap-2 pt-2 border-t border-gray-100">
+            <select className={inputClass} value={editing.id} onChange={(e) => setEditingId(e.target.value)}>
+              {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button onClick={() => createPreset(BUILTIN_PRESET, `Preset ${settings.promptPresets.length + 1}`)} className={iconButtonClass} title="New preset (from default)">
+              <Plus size={14} />
+            </button>
+            <button onClick={() => createPreset(editing, `${editing.name} (copy)`)} className={iconButtonClass} title="Duplicate preset">
+              <Copy size={14} />
+            </button>
+            <button onClick={deletePreset} disabled={isBuiltIn} className={`${iconButtonClass} text-red-500`} title="Delete preset">
+              <Trash2 size={14} />
+            </button>
+          </div>
+
+          {!isBuiltIn && (
+            <input
+              type="text"
+              className={inputClass}
+              value={editing.name}
+              onChange={(e) => updatePreset({ name: e.target.value })}
+              placeholder="Preset name..."
+            />
+          )}
+
+          <textarea
+            ref={templateRef}
+            className={`${inputClass} font-mono text-xs resize-y`}
+            rows={8}
+            value={editing.template}
+            onChange={(e) => updatePreset({ template: e.target.value })}
+            readOnly={isBuiltIn}
+            spellCheck={false}
+          />
+          {isBuiltIn && <p className="-mt-2 text-xs text-gray-400">Built-in preset is read-only. Duplicate it to customize.</p>}
+
+          {/* Placeholders */}
+          <div className="flex flex-wrap gap-1">
+            {PROMPT_PLACEHOLDERS.map(p => (
+              <button
+                key={p.key}
+                onClick={() => insertPlaceholder(p.key)}
+                disabled={isBuiltIn}
+                className="px-1.5 py-0.5 rounded border text-[10px] font-mono bg-violet-50 text-violet-600 border-violet-200 hover:bg-violet-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                title={p.description}
+              >
+                {`{{${p.key}}}`}
+              </button>
+            ))}
+          </div>
+
+          {/* Final System Instruction Preview */}
+          <details className="pt-2 border-t border-gray-100">
+            <summary className="text-sm font-medium text-gray-500 cursor-pointer select-none">Preview final system instruction</summary>
+            <div className="flex gap-1 my-2">
+              {FILE_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setPreviewType(type)}
+                  className={`flex-1 py-1 text-xs font-medium rounded border ${previewType === type ? 'bg-blue-50 text-blue-700 border-blue-300' : 'bg-white text-gray-500 border-gray-200'}`}
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+            <pre className="max-h-64 overflow-auto p-2 rounded bg-gray-50 border border-gray-200 text-[10px] leading-snug whitespace-pre-wrap text-gray-600">{preview}</pre>
+          </details>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PromptEditor;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { AIProviderId, AppSettings } from '../types';
+import { AI_PROVIDERS, getProvider } from '../services/providers';
+
+interface Props {
+  settings: AppSettings;
+  setSettings: React.Dispatch<React.SetStateAction<AppSettings>>;
+  isProcessing: boolean;
+}
+
+const ProviderPanel: React.FC<Props> = ({ settings, setSettings, isProcessing }) => {
+  const provider = getProvider(settings.aiProvider);
+
+  const handleProviderChange = (id: AIProviderId) => {
+    if (isProcessing) return;
+    // Model names are provider specific: reset to the new provider's default
+    setSettings(prev => ({ ...prev, aiProvider: id, aiModel: '' }));
+  };
+
+  const inputClass = "w-full text-base p-2 border border-gray-300 rounded bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none focus:border-blue-500 transition-all disabled:bg-gray-100 disabled:text-gray-400";
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Cpu className="w-4 h-4 text-blue-500" />
+        <h2 className="text-base font-semibold text-gray-700 uppercase tracking-wide">AI Provider</h2>
+      </div>
+
+      <div className={`flex gap-2 p-1 bg-gray-100 rounded-lg w-full ${isProcessing ? 'opacity-60 cursor-not-allowed' : ''}`}>
+        {AI_PROVIDERS.map(p => (
+          <button
+            key={p.id}
+            onClick={() => handleProviderChange(p.id)}
+            disabled={isProcessing}
+            className={`flex-1 py-2 text-sm font-medium rounded-md transition-all truncate ${
+              settings.aiProvider === p.id ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-500 hover:bg-gray-200'
+            } ${isProcessing ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+            title={p.label}
+          >
+            {p.shortLabel}
+          </button>
+        ))}
+      </div>
+
+      {settings.aiProvider !== 'mock' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Model</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={provider.defaultModel}
+            value={settings.aiModel}
+            onChange={(e) => setSettings(prev => ({ ...prev, aiModel: e.target.value }))}
+            disabled={isProcessing}
+          />
+        </div>
+      )}
+
+      {settings.aiProvider === 'openai' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-500 mb-1">Base URL</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={provider.defaultBaseUrl}
+            value={settings.aiBaseUrl}
+            onChange={(e) => setSettings(prev => ({ ...prev, aiBaseUrl: e.target.value }))}
+            disabled={isProcessing}
+          />
+          <p className="mt-1 text-xs text-gray-400">Use a vision model. API key is optional for local servers (Ollama, LM Studio).</p>
+        </div>
+      )}
+
+      {settings.aiProvider === 'mock' && (
+        <p className="text-xs text-gray-400">Deterministic fake results, no network and no API key. For testing the pipeline offline.</p>
+      )}
+    </div>
+  );
+};
+
+export default ProviderPanel;
@@ -1,5 +1,5 @@
 
-import { Category, FileMetadata } from './types';
+import { AppSettings, Category, FileMetadata, FileType, LanguageInfo } from './types';
 
 export const CATEGORIES: Category[] = [
   { id: '1', en: 'Animals', id_lang: 'Hewan' },
@@ -25,14 +25,60 @@ export const CATEGORIES: Category[] = [
   { id: '21', en: 'Travel', id_lang: 'Wisata' },
 ];
 
+// English is the source of truth; every other locale is a translation of it
+export const SUPPORTED_LANGUAGES: LanguageInfo[] = [
+  { code: 'en', label: 'ENG', name: 'English' },
+  { code: 'id', label: 'IND', name: 'Indonesian' },
+  { code: 'de', label: 'DEU', name: 'German' },
+  { code: 'es', label: 'ESP', name: 'Spanish' },
+  { code: 'ja', label: 'JPN', name: 'Japanese' },
+  { code: 'fr', label: 'FRA', name: 'French' },
+  { code: 'pt', label: 'POR', name: 'Portuguese' },
+  { code: 'it', label: 'ITA', name: 'Italian' },
+  { code: 'nl', label: 'NLD', name: 'Dutch' },
+  { code: 'ko', label: 'KOR', name: 'Korean' },
+  { code: 'zh', label: 'CHN', name: 'Chinese (Simplified)' },
+];
+
 export const INITIAL_METADATA: FileMetadata = {
   en: { title: '', keywords: '' },
-  ind: { title: '', keywords: '' },
+  translations: {},
   category: '',
 };
 
+export const DEFAULT_SETTINGS: AppSettings = {
+  customTitle: '',
+  customKeyword: '',
+  slideTitle: 60, // CHANGED: Default updated from 50 to 60
+  slideKeyword: 40,
+  selectedFileType: FileType.Image,
+  csvFilename: '',
+  exportProfiles: ['adobe'],
+  targetLanguages: ['id'],
+  exportLanguage: 'en',
+  complianceMode: 'warn',
+  blocklistTerms: [],
+  blocklistDisabled: [],
+  blocklistAction: 'remove',
+  nearDuplicateThreshold: 95,
+  videoFrameCount: 3,
+  videoSamplingMode: 'even',
+  videoMinDuration: 5,
+  videoMinResolution: 1080,
+  aiProvider: 'gemini',
+  aiModel: '',
+  aiBaseUrl: '',
+  persistApiKeys: false,
+  promptPresets: [],
+  promptPresetByType: {
+    [FileType.Image]: 'builtin-default',
+    [FileType.Video]: 'builtin-default',
+    [FileType.Vector]: 'builtin-default',
+  },
+};
+
 export const DEFAULT_PROMPT_TEMPLATE = `
-You are an expert Adobe Stock contributor assistant. Your task is to generate metadata in TWO LANGUAGES (English and Indonesian).
+You are an expert Adobe Stock contributor assistant. Your task is to generate metadata in English, plus professional translations into: {{languages}}.
 
 STRICT RULES FOR TITLE:
 1.  **Format:** [Subject] + [Action/Context] + [Environment/Style].
@@ -49,8 +95,8 @@ STRICT RULES FOR CATEGORY:
 1.  Select the MOST relevant category ID from the provided list.
 
 IMPORTANT:
-- Generate "en" (English) version first.
-- Generate "ind" (Indonesian) version which is a professional translation of the English version.
+- Generate "en" (English) version first. English is the source of truth.
+- For every requested language, generate a professional translation of the English version under "translations", keyed by its language code.
 
 JSON OUTPUT FORMAT ONLY:
 {
@@ -58,9 +104,11 @@ JSON OUTPUT FORMAT ONLY:
     "title": "String (English)",
     "keywords": "String (English, comma separated)"
   },
-  "ind": {
-    "title": "String (Bahasa Indonesia)",
-    "keywords": "String (Bahasa Indonesia, comma separated)"
+  "translations": {
+    "<language code>": {
+      "title": "String (translated)",
+      "keywords": "String (translated, comma separated)"
+    }
   },
   "category": "String (ID only)"
 }
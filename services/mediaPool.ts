@@ -0,0 +1,292 @@
+import { EncodeOptions, EncodedImage, MediaOutput, MediaTask, runMediaTask } from "../utils/imageEncoder";
+import { SIGNATURE_SAMPLES, signatureFromSamples } from "../utils/imageHash";
+import type { MediaJob, MediaJobResult } from "../utils/media.worker";
+import { ImageSignature, VideoSamplingMode } from "../types";
+import { evenFrameTimes, pickSceneFrames, scanFrameTimes, SCAN_HEIGHT, SCAN_WIDTH, toLuma } from "../utils/videoSampling";
+
+// --- MEDIA WORKER POOL ---
+// Decoding, resizing and JPEG encoding of photos, SVGs and video frames run in a small,
+// bounded pool of Web Workers, so 10 concurrent AI requests on 40MP photos or 4K video
+// don't freeze the UI. Callers only get base64 payloads / thumbnail data URLs (or the tiny
+// pixel samples behind image signatures) back.
+// Browsers without OffscreenCanvas fall back to encoding on the main thread.
+
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const AI_MAX_SIZE = 2000;     // Longest side sent to the AI (approx 2K, sufficient for analysis)
+const THUMBNAIL_SIZE = 256;
+
+interface PendingJob {
+  job: MediaJob;
+  resolve: (result: MediaOutput) => void;
+  reject: (error: Error) => void;
+}
+
+interface Slot {
+  worker: Worker;
+  current: PendingJob | null;
+  hasCompleted: boolean; // Answered at least once, i.e. the worker script loads and runs
+}
+
+const slots: Slot[] = [];
+const queue: PendingJob[] = [];
+let nextJobId = 1;
+let workersAvailable =
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof OffscreenCanvas.prototype.convertToBlob === 'function';
+
+const runTaskInline = async (source: Blob | ImageBitmap, task: MediaTask): Promise<MediaOutput> => {
+  const bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+  try {
+    return await runMediaTask(bitmap, task);
+  } finally {
+    bitmap.close();
+  }
+};
+
+// Queued/failed job retried on the main thread. A bitmap already transferred to the dead worker
+// is detached (0x0) and can't be recovered.
+const runInline = (pending: PendingJob) => {
+  const { source, task } = pending.job;
+  if (source instanceof ImageBitmap && source.width === 0) {
+    pending.reject(new Error("Media worker failed before encoding the frame"));
+    return;
+  }
+  runTaskInline(source, task).then(pending.resolve, pending.reject);
+};
+
+// Workers can't be used in this environment: everything waiting goes to the main thread
+const disableWorkers = (reason: unknown) => {
+  if (workersAvailable) console.warn("Media workers unavailable, encoding on the main thread", reason);
+  workersAvailable = false;
+  queue.splice(0).forEach(runInline);
+};
+
+const createSlot = (): Slot => {
+  const slot: Slot = {
+    worker: new Worker(new URL('../utils/media.worker.ts', import.meta.url), { type: 'module' }),
+    current: null,
+    hasCompleted: false,
+  };
+  slot.worker.onmessage = (event: MessageEvent<MediaJobResult>) => {
+    const pending = slot.current;
+    slot.current = null;
+    slot.hasCompleted = true;
+    if (pending) {
+      if ('error' in event.data) pending.reject(new Error(event.data.error));
+      else pending.resolve(event.data.result);
+    }
+    dispatch();
+  };
+  slot.worker.onerror = (event) => {
+    event.preventDefault();
+    const failed = slot.current;
+    slot.current = null;
+    slot.worker.terminate();
+    slots.splice(slots.indexOf(slot), 1);
+
+    // Never answered: the script itself doesn't load (module workers unsupported, CSP, 404...).
+    // A replacement would fail the same way, so stop using workers and retry inline.
+    if (!slot.hasCompleted) {
+      disableWorkers(event.message || event);
+      if (failed) runInline(failed);
+      return;
+    }
+
+    // Crashed worker (e.g. out of memory on a huge file): fail its job and replace it
+    failed?.reject(new Error(event.message || "Media worker crashed"));
+    dispatch();
+  };
+  return slot;
+};
+
+const dispatch = () => {
+  while (queue.length > 0) {
+    let slot = slots.find(s => !s.current);
+    if (!slot && slots.length < POOL_SIZE) {
+      try {
+        slot = createSlot();
+        slots.push(slot);
+      } catch (error) {
+        if (slots.length > 0) return;
+        // Worker construction refused (CSP, file:// ...): stay on the main thread from now on
+        disableWorkers(error);
+        return;
+      }
+    }
+    if (!slot) return;
+
+    const pending = queue.shift()!;
+    slot.current = pending;
+    const { source } = pending.job;
+    // Bitmaps are transferred (zero-copy); Blobs are passed by reference anyway
+    slot.worker.postMessage(pending.job, source instanceof ImageBitmap ? [source] : []);
+  }
+};
+
+const runTask = (source: Blob | ImageBitmap, task: MediaTask): Promise<MediaOutput> => {
+  if (!workersAvailable) return runTaskInline(source, task);
+  return new Promise((resolve, reject) => {
+    queue.push({ job: { id: nextJobId++, source, task }, resolve, reject });
+    dispatch();
+  });
+};
+
+const runJob = async (source: Blob | ImageBitmap, options: EncodeOptions): Promise<EncodedImage> =>
+  (await runTask(source, { kind: 'encode', options })) as EncodedImage;
+
+// --- SOURCES THAT NEED THE DOM ---
+// SVG rasterization and video seeking only exist on the main thread; they hand an
+// ImageBitmap (cheap, no encoding) to the pool.
+
+const isSvg = (file: File) => file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg');
+
+const rasterizeSvg = (file: File): Promise<ImageBitmap> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      createImageBitmap(img).then(resolve, reject);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load SVG image"));
+    };
+    img.src = url;
+  });
+};
+
+// --- PUBLIC API ---
+
+// Photos (JPG/PNG...): resized to max 2000px, JPEG 0.8. Returns base64.
+export const compressImage = async (file: File): Promise<string> => {
+  return (await runJob(file, { maxSize: AI_MAX_SIZE, quality: 0.8 })).data;
+};
+
+// SVG to JPEG with a WHITE background, so the AI sees a solid image instead of transparency. Returns base64.
+export const convertSvgToWhiteBgJpeg = async (file: File): Promise<string> => {
+  return (await runJob(await rasterizeSvg(file), { maxSize: AI_MAX_SIZE, quality: 0.9, background: '#FFFFFF' })).data;
+};
+
+// Pixels drawn elsewhere (e.g. a rendered PDF page) to base64 JPEG with a white background
+export const encodeBitmap = async (bitmap: ImageBitmap, maxSize = AI_MAX_SIZE, quality = 0.9): Promise<string> => {
+  return (await runJob(bitmap, { maxSize, quality, background: '#FFFFFF' })).data;
+};
+
+// Small JPEG data URL for project files / UI (images & SVG only)
+export const createImageThumbnail = async (file: File, maxSize = THUMBNAIL_SIZE): Promise<string> => {
+  const source = isSvg(file) ? await rasterizeSvg(file) : file;
+  const { data } = await runJob(source, { maxSize, quality: 0.7, background: '#FFFFFF' });
+  return `data:image/jpeg;base64,${data}`;
+};
+
+// Visual fingerprint (see utils/imageHash) of a thumbnail data URL or an image/SVG file.
+// Decoding and downscaling happen in the pool; only the hashing of ~4K samples runs here.
+export const computeImageSignature = async (source: string | File): Promise<ImageSignature> => {
+  const blob = typeof source === 'string' ? await (await fetch(source)).blob() : source;
+  const bitmap = blob instanceof File && isSvg(blob) ? await rasterizeSvg(blob) : blob;
+  const [hashPixels, histogramPixels] = (await runTask(bitmap, { kind: 'sample', sizes: SIGNATURE_SAMPLES })) as Uint8ClampedArray[];
+  return signatureFromSamples(hashPixels, histogramPixels);
+};
+
+// --- VIDEO ---
+// The <video> element only seeks and grabs bitmaps; encoding happens in the pool while the
+// next frame is being seeked.
+
+interface OpenedVideo {
+  video: HTMLVideoElement;
+  duration: number;
+  seek: (time: number) => Promise<void>;
+  close: () => void;
+}
+
+const openVideo = (videoFile: File): Promise<OpenedVideo> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(videoFile);
+    video.muted = true;
+    video.playsInline = true;
+    video.crossOrigin = "anonymous";
+
+    const close = () => {
+      video.onloadedmetadata = null;
+      video.onseeked = null;
+      video.onerror = null;
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+    };
+
+    const seek = (time: number) => new Promise<void>((resolveSeek, rejectSeek) => {
+      video.onseeked = () => resolveSeek();
+      video.onerror = () => rejectSeek(new Error("Error seeking video"));
+      video.currentTime = Math.min(Math.max(0, time), video.duration);
+    });
+
+    // When metadata loads, we know duration
+    video.onloadedmetadata = () => resolve({ video, duration: video.duration, seek, close });
+    video.onerror = () => {
+      close();
+      reject(new Error("Error loading video"));
+    };
+    video.src = url;
+  });
+};
+
+const grabFrames = async ({ video, seek }: OpenedVideo, times: number[], maxSize: number): Promise<string[]> => {
+  const encodes: Promise<EncodedImage>[] = [];
+  for (const time of times) {
+    await seek(time);
+    encodes.push(runJob(await createImageBitmap(video), { maxSize, quality: 0.7 }));
+  }
+  return (await Promise.all(encodes)).map(frame => frame.data);
+};
+
+// Low-res luminance of each scan point (tiny canvas, so reading pixels here is cheap)
+const scanVideo = async ({ video, seek }: OpenedVideo, times: number[]): Promise<Float32Array[]> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SCAN_WIDTH;
+  canvas.height = SCAN_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas context failed");
+  const frames: Float32Array[] = [];
+  for (const time of times) {
+    await seek(time);
+    ctx.drawImage(video, 0, 0, SCAN_WIDTH, SCAN_HEIGHT);
+    frames.push(toLuma(ctx.getImageData(0, 0, SCAN_WIDTH, SCAN_HEIGHT).data));
+  }
+  return frames;
+};
+
+export interface VideoSampleOptions {
+  count: number;
+  mode: VideoSamplingMode;
+  times?: number[]; // Frames picked by the user: used as-is
+}
+
+// Frames sent to the AI, as base64 JPEGs, with the moment (seconds) each one was taken
+export const sampleVideoFrames = async (videoFile: File, options: VideoSampleOptions): Promise<{ times: number[]; frames: string[] }> => {
+  const opened = await openVideo(videoFile);
+  try {
+    let times = options.times && options.times.length > 0 ? options.times : evenFrameTimes(opened.duration, options.count);
+    if (!options.times?.length && options.mode === 'scene') {
+      const scanTimes = scanFrameTimes(opened.duration, options.count);
+      times = pickSceneFrames(scanTimes, await scanVideo(opened, scanTimes), options.count);
+    }
+    return { times, frames: await grabFrames(opened, times, AI_MAX_SIZE) };
+  } finally {
+    opened.close();
+  }
+};
+
+// Small previews of given moments (PreviewModal frame strip). Returns data URLs.
+export const captureVideoFrames = async (videoFile: File, times: number[], maxSize = THUMBNAIL_SIZE): Promise<string[]> => {
+  const opened = await openVideo(videoFile);
+  try {
+    return (await grabFrames(opened, times, maxSize)).map(data => `data:image/jpeg;base64,${data}`);
+  } finally {
+    opened.close();
+  }
+};
@@ -0,0 +1,344 @@
+
+import { AppSettings, FileItem, FileMetadata, FileType, Language, LocalizedContent } from "../types";
+import { CATEGORIES } from "../constants";
+import { compressImage, convertSvgToWhiteBgJpeg, sampleVideoFrames } from "./mediaPool";
+import { ContentPart, getProvider, getProviderConfig, SchemaNode } from "./providers";
+import { getLanguageInfo, SOURCE_LANGUAGE } from "../utils/locales";
+import { buildPromptVariables, getPresetForFileType, renderPromptTemplate } from "../utils/promptTemplates";
+import { FILLER_KEYWORDS, joinKeywords, processKeywords } from "../utils/keywords";
+import { findBlockedInContent, getBlockedTerms, stripBlockedTerms } from "../utils/blocklist";
+import { formatTimestamp } from "../utils/videoSampling";
+import { describeVideoForPrompt } from "../utils/videoInfo";
+import { isPdf, renderPdfPage } from "./pdfRenderer";
+
+// Helper to convert file to base64
+const fileToPart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (reader.result) {
+        const base64String = (reader.result as string).split(',')[1];
+        resolve({
+          inlineData: {
+            data: base64String,
+            mimeType: file.type || 'application/octet-stream', // Fallback for AI/EPS
+          },
+        });
+      } else {
+        reject(new Error("Failed to read file"));
+      }
+    };
+    reader.readAsDataURL(file);
+  });
+};
+
+const PDF_RENDER_SIZE = 2000; // Same cap as photos
+
+// Pool output (base64 JPEG) as a provider content part
+const jpegPart = (data: string) => ({ inlineData: { data, mimeType: 'image/jpeg' } });
+
+// Define return type to include thumbnail
+interface GenerationResult {
+  metadata: FileMetadata;
+  thumbnail?: string;
+  frameTimes?: number[];     // Video: moments (seconds) of the frames that were analysed
+  keywordShortfall?: number; // Still short of the target after the top-up request
+  blockedTerms?: string[];   // Blocklist matches in the raw output (removed or left flagged)
+}
+
+const LOCALIZED_SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    keywords: { type: 'string' },
+  },
+  required: ['title', 'keywords'],
+};
+
+// One "translations" entry per target locale. Omitted for English-only runs
+// (some providers reject objects without properties).
+const buildLocalizedSchema = (languages: Language[]): SchemaNode | null => {
+  if (languages.length === 0) return null;
+  return {
+    type: 'object',
+    properties: Object.fromEntries(languages.map(code => [code, LOCALIZED_SCHEMA])),
+    required: languages,
+  };
+};
+
+const buildMetadataSchema = (targetLanguages: Language[]): SchemaNode => {
+  const translations = buildLocalizedSchema(targetLanguages);
+  return {
+    type: 'object',
+    properties: {
+      en: LOCALIZED_SCHEMA,
+      ...(translations ? { translations } : {}),
+      category: { type: 'string' },
+    },
+    required: translations ? ['en', 'translations', 'category'] : ['en', 'category'],
+  };
+};
+
+export const generateMetadataForFile = async (
+  fileItem: FileItem,
+  settings: AppSettings,
+  apiKey: string
+): Promise<GenerationResult> => {
+  try {
+    const provider = getProvider(settings.aiProvider);
+
+    // 1. Build System Instruction from the preset selected for this FileType
+    //    (placeholders: categories, constraints, file type rules...)
+    const preset = getPresetForFileType(settings, fileItem.type);
+    let systemInstruction = renderPromptTemplate(preset.template, buildPromptVariables(fileItem.type, settings));
+
+    // --- EMBEDDED METADATA ENHANCEMENT ---
+    // Prefilled from the file's IPTC/XMP: refine the curated work instead of replacing it
+    if (fileItem.enhanceExisting && (fileItem.metadata.en.title || fileItem.metadata.en.keywords)) {
+      systemInstruction += `
+
+      \n=== EXISTING METADATA (Curated by the contributor) ===
+      Title: ${fileItem.metadata.en.title}
+      Keywords: ${fileItem.metadata.en.keywords}
+
+      Improve this metadata instead of starting from scratch:
+      - Keep every accurate keyword and preserve its relative order; fix spelling and remove irrelevant ones.
+      - Add missing relevant keywords until the required count is reached.
+      - Keep the title's meaning; only rewrite it to follow the title rules above.
+      `;
+    }
+
+    // 4. Prepare contents
+    let parts: ContentPart[] = [];
+    const targetLanguages = settings.targetLanguages.filter(code => code !== SOURCE_LANGUAGE);
+    let promptText = targetLanguages.length > 0
+      ? `Analyze this asset and generate commercial metadata in English, translated into ${targetLanguages.map(c => getLanguageInfo(c).name).join(', ')}.`
+      : "Analyze this asset and generate commercial metadata in English.";
+    let generatedThumbnail: string | undefined = undefined;
+    let frameTimes: number[] | undefined = undefined;
+
+    if (fileItem.type === FileType.Video) {
+      // THIS IS THE HEAVY LIFTING (encoded in the media worker pool)
+      const { frames, times } = await sampleVideoFrames(fileItem.file, {
+        count: settings.videoFrameCount,
+        mode: settings.videoSamplingMode,
+        times: fileItem.framesPinned ? fileItem.frameTimes : undefined,
+      });
+      frameTimes = times;
+      
+      // Save the first frame as the thumbnail for the UI "Trick"
+      // This allows us to replace the <video> tag with an <img> tag in the UI
+      generatedThumbnail = `data:image/jpeg;base64,${frames[0]}`;
+
+      const moments = times.map(formatTimestamp).join(', ');
+      promptText = frames.length === 1
+        ? `Analyze this frame (at ${moments}) from a video footage. Describe the scene and the likely action.`
+        : `Analyze these ${frames.length} frames (in order, at ${moments}) from a video footage. Describe the action and motion.`;
+      if (fileItem.videoInfo) {
+        promptText += `\n${describeVideoForPrompt(fileItem.videoInfo)}`;
+      }
+      parts = [...frames.map(jpegPart), { text: promptText }];
+    } else if (fileItem.type === FileType.Vector && fileItem.companion) {
+      // EPS/AI: the AI can't read the file itself, so it analyses the same-name JPG/PNG preview
+      const mediaPart = jpegPart(await compressImage(fileItem.companion));
+
+      promptText = "Analyze this Vector/Illustration (shown through its JPEG preview). Focus on the concept, design style (flat, isometric, etc), and visual elements. Do NOT mention background details.";
+      parts = [mediaPart, { text: promptText }];
+
+    } else if (fileItem.type === FileType.Vector && isPdf(fileItem.file)) {
+      // PDF: one page rendered locally to a white-background JPEG (first page unless picked)
+      const { data } = await renderPdfPage(fileItem.file, fileItem.pdfInfo?.page || 1, PDF_RENDER_SIZE);
+
+      promptText = "Analyze this Vector/Illustration. Focus on the concept, design style (flat, isometric, etc), and visual elements. Do NOT mention background details.";
+      parts = [jpegPart(data), { text: promptText }];
+
+    } else if (fileItem.type === FileType.Vector && fileItem.file.type === 'image/svg+xml') {
+      // SPECIAL HANDLING FOR SVG: Convert to JPEG with White Background
+      const mediaPart = jpegPart(await convertSvgToWhiteBgJpeg(fileItem.file));
+      
+      promptText = "Analyze this Vector/Illustration. Focus on the concept, design style (flat, isometric, etc), and visual elements. Do NOT mention background details.";
+      parts = [mediaPart, { text: promptText }];
+
+    } else if (fileItem.type === FileType.Image) {
+      // OPTIMIZATION: Compress standard images (JPG/PNG) before sending
+      // This significantly speeds up upload for large photos
+      const mediaPart = jpegPart(await compressImage(fileItem.file));
+      parts = [mediaPart, { text: promptText }];
+
+    } else {
+      // DEFAULT FALLBACK (AI/EPS without a companion preview)
+      // Send raw bytes
+      const mediaPart = await fileToPart(fileItem.file);
+      
+      if (fileItem.type === FileType.Vector) {
+         promptText = "Analyze this Vector/Illustration. Focus on the concept, design style (flat, isometric, etc), and visual elements. Do NOT mention background details.";
+      }
+
+      parts = [mediaPart, { text: promptText }];
+    }
+    
+    // 5. Call the selected AI provider (Gemini / OpenAI-compatible / Mock)
+    const parsed = await provider.generateStructured<FileMetadata>(
+      { systemInstruction, parts, schema: buildMetadataSchema(targetLanguages) },
+      getProviderConfig(settings, apiKey)
+    );
+
+    const validCategory = CATEGORIES.find(c => c.id === parsed.category) ? parsed.category : '8';
+
+    const rawEn: LocalizedContent = { title: parsed.en?.title || "", keywords: parsed.en?.keywords || "" };
+    const rawTranslations: Record<Language, LocalizedContent> = Object.fromEntries(targetLanguages.map(code => [code, {
+      title: parsed.translations?.[code]?.title || "",
+      keywords: parsed.translations?.[code]?.keywords || ""
+    }]));
+
+    // 6. Blocklist check on the raw output (all languages)
+    const blockedTerms = getBlockedTerms(fileItem.type, settings);
+    const blockedFound = Array.from(new Set(
+      [rawEn, ...Object.values(rawTranslations)].flatMap(content => findBlockedInContent(content, blockedTerms))
+    ));
+
+    // 7. Deterministic keyword cleanup (+ one targeted top-up when short)
+    const { en, translations, shortfall } = await finalizeKeywords(rawEn, rawTranslations, blockedTerms, settings, apiKey);
+
+    return {
+      metadata: { en, translations, category: validCategory },
+      thumbnail: generatedThumbnail,
+      frameTimes,
+      keywordShortfall: shortfall > 0 ? shortfall : undefined,
+      blockedTerms: blockedFound.length > 0 ? blockedFound : undefined,
+    };
+
+  } catch (error) {
+    console.error("AI Provider Error:", error);
+    throw error;
+  }
+};
+
+// --- KEYWORD TOP-UP ---
+// Text-only follow-up when cleanup leaves the list short of the target.
+// Asks for a few spares (dedupe/ban may eat some) and their translations in the same call.
+const TOP_UP_SPARE = 5;
+
+const requestKeywordTopUp = async (
+  en: LocalizedContent,
+  missing: number,
+  targetLanguages: Language[],
+  blockedTerms: string[],
+  settings: AppSettings,
+  apiKey: string
+): Promise<{ en: string; translations: Record<Language, string> }> => {
+  const provider = getProvider(settings.aiProvider);
+  const requested = missing + TOP_UP_SPARE;
+  const translations = targetLanguages.length > 0
+    ? `\nAlso translate the new keywords (same order) into: ${targetLanguages.map(code => `"${code}" (${getLanguageInfo(code).name})`).join(', ')}, under "translations" keyed by language code.`
+    : '';
+
+  const prompt = `
+      You are completing the keyword list of a stock asset.
+      Title: ${en.title}
+      Existing keywords: ${en.keywords}
+
+      Return EXACTLY ${requested} additional keywords in English, comma separated, most relevant first.
+      Do NOT repeat existing keywords or their plural/singular forms.
+      Never use these terms (or keywords containing them): ${blockedTerms.join(', ')}${translations}
+    `;
+
+  const schema: SchemaNode = {
+    type: 'object',
+    properties: {
+      keywords: { type: 'string' },
+      ...(targetLanguages.length > 0 ? {
+        translations: {
+          type: 'object',
+          properties: Object.fromEntries(targetLanguages.map(code => [code, { type: 'string' } as SchemaNode])),
+          required: targetLanguages,
+        } as SchemaNode,
+      } : {}),
+    },
+    required: ['keywords'],
+  };
+
+  const json = await provider.generateStructured<{ keywords?: string; translations?: Record<Language, string> }>(
+    { parts: [{ text: prompt }], schema },
+    getProviderConfig(settings, apiKey)
+  );
+
+  return { en: json.keywords || '', translations: json.translations || {} };
+};
+
+const finalizeKeywords = async (
+  en: LocalizedContent,
+  translations: Record<Language, LocalizedContent>,
+  blockedTerms: string[],
+  settings: AppSettings,
+  apiKey: string
+): Promise<{ en: LocalizedContent; translations: Record<Language, LocalizedContent>; shortfall: number }> => {
+  const target = settings.slideKeyword;
+  const banned = FILLER_KEYWORDS;
+  // 'flag' mode keeps blocklist matches in place; the compliance linter reports them
+  const blocked = settings.blocklistAction === 'remove' ? blockedTerms : [];
+  const cleanTitle = (title: string) => (blocked.length > 0 ? stripBlockedTerms(title, blocked) : title);
+  const languages = Object.keys(translations);
+
+  let source = processKeywords(en.keywords, { target, banned, blocked });
+  let extra: Record<Language, string> = {};
+
+  if (source.missing > 0) {
+    try {
+      const topUp = await requestKeywordTopUp({ ...en, keywords: joinKeywords(source.keywords) }, source.missing, languages, blockedTerms, settings, apiKey);
+      source = processKeywords(`${joinKeywords(source.keywords)}, ${topUp.en}`, { target, banned, blocked });
+      extra = topUp.translations;
+    } catch (e) {
+      // Fail safe: keep the (short) cleaned list, the caller reports the shortfall
+      console.error("Keyword top-up failed", e);
+    }
+  }
+
+  return {
+    en: { title: cleanTitle(en.title), keywords: joinKeywords(source.keywords) },
+    translations: Object.fromEntries(Object.entries(translations).map(([code, content]) => [code, {
+      title: cleanTitle(content.title),
+      keywords: joinKeywords(processKeywords(
+        extra[code] ? `${content.keywords}, ${extra[code]}` : content.keywords,
+        { target, language: code, blocked }
+      ).keywords),
+    }])),
+    shortfall: source.missing,
+  };
+};
+
+// --- SYNC TRANSLATION SERVICE ---
+// Used when user edits one language, to sync the others (single request for all targets).
+export const translateMetadataContent = async (
+  content: LocalizedContent,
+  sourceLang: Language,
+  targetLangs: Language[],
+  settings: AppSettings,
+  apiKey: string
+): Promise<Record<Language, LocalizedContent>> => {
+  const schema = buildLocalizedSchema(targetLangs);
+  if (!schema) return {};
+
+  const provider = getProvider(settings.aiProvider);
+
+  const targetList = targetLangs.map(code => `"${code}" (${getLanguageInfo(code).name})`).join(', ');
+  const prompt = `
+    Translate the following metadata from ${getLanguageInfo(sourceLang).name} into: ${targetList}.
+    Return one entry per language code.
+    Maintain professional stock photography metadata style.
+    
+    Title: ${content.title}
+    Keywords: ${content.keywords}
+  `;
+
+  // Errors propagate: the caller records the key outcome and keeps the previous translations
+  const json = await provider.generateStructured<Record<Language, LocalizedContent>>(
+    { parts: [{ text: prompt }], schema },
+    getProviderConfig(settings, apiKey)
+  );
+
+  // Only complete translations: a missing language keeps its previous text instead of the source
+  return Object.fromEntries(targetLangs
+    .filter(code => json[code]?.title && json[code]?.keywords)
+    .map(code => [code, { title: json[code].title, keywords: json[code].keywords }]));
+};
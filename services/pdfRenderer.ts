@@ -0,0 +1,76 @@
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { PdfInfo } from "../types";
+import { encodeBitmap } from "./mediaPool";
+
+// --- PDF RENDERING ---
+// PDF vectors are rendered locally (pdf.js) to a white-background JPEG, like SVGs, instead of
+// sending the raw file: smaller uploads and the model sees exactly one page.
+// pdf.js parses in its own worker; the JPEG encoding goes through the media pool.
+// The library is only loaded once the first PDF shows up.
+
+const POINTS_PER_MM = 72 / 25.4;
+const THUMBNAIL_SIZE = 256;
+
+let pdfjsPromise: Promise<typeof import("pdfjs-dist")> | null = null;
+
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import("pdfjs-dist").then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+      return pdfjs;
+    }).catch(error => {
+      pdfjsPromise = null; // Retry on the next PDF (e.g. offline hiccup)
+      throw error;
+    });
+  }
+  return pdfjsPromise;
+};
+
+export interface RenderedPdfPage {
+  data: string;  // Base64 JPEG
+  info: PdfInfo;
+}
+
+// Renders one page (1-based, clamped to the document) with its longest side at maxSize px
+export const renderPdfPage = async (file: File, pageNumber: number, maxSize: number): Promise<RenderedPdfPage> => {
+  const { getDocument } = await loadPdfjs();
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const page = await pdf.getPage(Math.min(Math.max(1, pageNumber), pdf.numPages));
+    const artboard = page.getViewport({ scale: 1 }); // PDF units = points (1/72 inch)
+    const scale = maxSize / Math.max(artboard.width, artboard.height);
+    const viewport = page.getViewport({ scale });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(viewport.width));
+    canvas.height = Math.max(1, Math.round(viewport.height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+    await page.render({ canvasContext: ctx, viewport, background: '#FFFFFF' }).promise;
+
+    const data = await encodeBitmap(await createImageBitmap(canvas), maxSize);
+    return {
+      data,
+      info: {
+        pageCount: pdf.numPages,
+        page: page.pageNumber,
+        width: Math.round(artboard.width),
+        height: Math.round(artboard.height),
+      },
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+// Small JPEG data URL of a page for the card / fingerprint, with the document facts
+export const renderPdfThumbnail = async (file: File, pageNumber: number): Promise<{ thumbnail: string; info: PdfInfo }> => {
+  const { data, info } = await renderPdfPage(file, pageNumber, THUMBNAIL_SIZE);
+  return { thumbnail: `data:image/jpeg;base64,${data}`, info };
+};
+
+// "595 × 842 pt (210 × 297 mm)"
+export const formatArtboard = (info: PdfInfo): string =>
+  `${info.width} × ${info.height} pt (${Math.round(info.width / POINTS_PER_MM)} × ${Math.round(info.height / POINTS_PER_MM)} mm)`;
+
+export const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
@@ -0,0 +1,47 @@
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { AIProvider, SchemaNode } from "./types";
+import { parseStructuredOutput, VALIDATE_TIMEOUT_MS, withTimeout } from "./structured";
+
+const toGeminiSchema = (schema: SchemaNode): Schema => {
+  if (schema.type === 'string') return { type: Type.STRING };
+  if (schema.type === 'array') return { type: Type.ARRAY, items: toGeminiSchema(schema.items) };
+  return {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])),
+    required: schema.required,
+  };
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  shortLabel: 'Gemini',
+  requiresApiKey: true,
+  defaultModel: 'gemini-2.5-flash',
+
+  generateStructured: async (request, config) => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+    const apiCall = ai.models.generateContent({
+      model: config.model,
+      contents: { parts: request.parts },
+      config: {
+        systemInstruction: request.systemInstruction,
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+      },
+    });
+
+    const response = await withTimeout(apiCall, request.timeoutMs);
+    return parseStructuredOutput(response.text, request.schema);
+  },
+
+  validateKey: async (config) => {
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+    await withTimeout(ai.models.generateContent({
+      model: config.model,
+      contents: 'ping',
+      config: { maxOutputTokens: 1 },
+    }), VALIDATE_TIMEOUT_MS);
+  },
+};
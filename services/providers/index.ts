@@ -0,0 +1,24 @@
+import { AIProviderId, AppSettings } from "../../types";
+import { AIProvider, ProviderConfig } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { openAICompatibleProvider } from "./openAICompatibleProvider";
+import { mockProvider } from "./mockProvider";
+
+export * from "./types";
+export { parseStructuredOutput } from "./structured";
+
+export const AI_PROVIDERS: AIProvider[] = [geminiProvider, openAICompatibleProvider, mockProvider];
+
+export const getProvider = (id: AIProviderId): AIProvider => {
+  return AI_PROVIDERS.find(p => p.id === id) || geminiProvider;
+};
+
+// Resolve model/baseUrl from settings, falling back to the provider defaults
+export const getProviderConfig = (settings: AppSettings, apiKey: string): ProviderConfig => {
+  const provider = getProvider(settings.aiProvider);
+  return {
+    apiKey,
+    model: settings.aiModel.trim() || provider.defaultModel,
+    baseUrl: settings.aiBaseUrl.trim() || provider.defaultBaseUrl,
+  };
+};
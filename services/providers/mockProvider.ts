@@ -0,0 +1,80 @@
+import { CATEGORIES } from "../../constants";
+import { AIProvider, SchemaNode, StructuredRequest } from "./types";
+
+// Deterministic offline provider: same input => same output, no network.
+// Lets the whole pipeline (queue, parsing, sync, export) be exercised without API keys.
+
+const MOCK_WORDS = [
+  'abstract', 'background', 'nature', 'business', 'travel', 'people', 'technology', 'food',
+  'landscape', 'color', 'modern', 'design', 'light', 'concept', 'outdoor', 'texture',
+  'city', 'summer', 'water', 'lifestyle', 'pattern', 'green', 'blue', 'sunset', 'style',
+  'creative', 'health', 'architecture', 'holiday', 'season', 'natural', 'object', 'detail',
+  'closeup', 'bright', 'minimal', 'vintage', 'urban', 'sky', 'work', 'education', 'sport',
+  'industry', 'animal', 'plant', 'flower', 'culture', 'science', 'shape', 'geometric',
+];
+
+// FNV-1a, enough to turn the request into a stable seed
+const hashString = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const requestSeed = (request: StructuredRequest): number => {
+  const parts = request.parts
+    .map(p => ('text' in p ? p.text : `${p.inlineData.mimeType}:${p.inlineData.data.length}:${p.inlineData.data.slice(0, 64)}`))
+    .join('|');
+  return hashString(`${request.systemInstruction || ''}|${parts}`);
+};
+
+// Honour "EXACTLY N keywords" from the prompt so count constraints can be tested offline
+const requestedKeywordCount = (request: StructuredRequest): number => {
+  const text = `${request.systemInstruction || ''} ${request.parts.map(p => ('text' in p ? p.text : '')).join(' ')}`;
+  const match = /EXACTLY (\d+) (?:additional )?keywords/i.exec(text);
+  return match ? Math.max(1, parseInt(match[1], 10)) : 25;
+};
+
+const mockKeywords = (seed: number, count: number): string => {
+  const words: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const word = MOCK_WORDS[(seed + i * 7) % MOCK_WORDS.length];
+    words.push(i < MOCK_WORDS.length ? word : `${word} ${i}`);
+  }
+  return words.join(', ');
+};
+
+const fill = (schema: SchemaNode, key: string, seed: number, request: StructuredRequest): any => {
+  if (schema.type === 'object') {
+    return Object.fromEntries(
+      Object.entries(schema.properties).map(([childKey, child], i) => [childKey, fill(child, childKey, seed + i, request)])
+    );
+  }
+  if (schema.type === 'array') {
+    return mockKeywords(seed, requestedKeywordCount(request)).split(', ').map(k => fill(schema.items, k, seed, request));
+  }
+  if (/keyword/i.test(key)) return mockKeywords(seed, requestedKeywordCount(request));
+  if (/title/i.test(key)) return `Mock ${MOCK_WORDS[seed % MOCK_WORDS.length]} ${MOCK_WORDS[(seed >>> 3) % MOCK_WORDS.length]} stock asset ${seed % 1000}`;
+  if (/category/i.test(key)) return CATEGORIES[seed % CATEGORIES.length].id;
+  return key;
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Mock (Offline)',
+  shortLabel: 'Mock',
+  requiresApiKey: false,
+  defaultModel: 'mock-1',
+
+  generateStructured: async (request) => {
+    // Small delay so the queue/concurrency UI behaves like a real provider
+    await new Promise(resolve => setTimeout(resolve, 300));
+    return fill(request.schema, 'root', requestSeed(request), request);
+  },
+
+  validateKey: async () => {
+    await new Promise(resolve => setTimeout(resolve, 300));
+  },
+};
@@ -0,0 +1,105 @@
+import { AIProvider, ProviderConfig } from "./types";
+import { DEFAULT_TIMEOUT_MS, parseStructuredOutput, toJsonSchema, VALIDATE_TIMEOUT_MS } from "./structured";
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Chat Completions payload (the subset sent here) and response (the part read back)
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ChatContentPart[] };
+
+interface ChatCompletionBody {
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  response_format?: { type: 'json_schema'; json_schema: { name: string; schema: object; strict: boolean } };
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// POST /chat/completions with a timeout; returns the parsed JSON body
+const postChatCompletion = async (config: ProviderConfig, body: ChatCompletionBody, timeoutMs: number): Promise<ChatCompletionResponse> => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.model, ...body }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      // Keep the status code in the message: the queue detects 429/403 from it
+      const text = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status}: ${text.slice(0, 300)}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new Error(`Request timed out (${Math.round(timeoutMs / 1000)}s limit)`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Works with OpenAI and any server speaking its Chat Completions API
+// (Ollama, LM Studio, vLLM...). Local servers usually need no API key.
+// Defaults target a local Ollama with a vision model; for OpenAI set the base URL and model.
+// Chat Completions only accepts images: other inline files (raw EPS/AI without a preview) fail
+// here with a clear message instead of a server-side 400.
+export const openAICompatibleProvider: AIProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  shortLabel: 'OpenAI / Local',
+  requiresApiKey: false,
+  defaultModel: 'llama3.2-vision',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+
+  generateStructured: async (request, config) => {
+    const unsupported = request.parts.find(part => 'inlineData' in part && !part.inlineData.mimeType.startsWith('image/'));
+    if (unsupported && 'inlineData' in unsupported) {
+      throw new Error(`OpenAI-compatible providers only accept images, not ${unsupported.inlineData.mimeType}. For EPS/AI, add a same-name JPG/PNG preview or use Gemini.`);
+    }
+
+    const content = request.parts.map((part): ChatContentPart =>
+      'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    );
+
+    const messages: ChatMessage[] = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({ role: 'user', content });
+
+    const json = await postChatCompletion(config, {
+      messages,
+      temperature: 0.4,
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: toJsonSchema(request.schema), strict: false },
+      },
+    }, request.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    return parseStructuredOutput(json?.choices?.[0]?.message?.content, request.schema);
+  },
+
+  validateKey: async (config) => {
+    await postChatCompletion(config, { messages: [{ role: 'user', content: 'ping' }], max_tokens: 1 }, VALIDATE_TIMEOUT_MS);
+  },
+};
@@ -0,0 +1,68 @@
+import { SchemaNode } from "./types";
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const VALIDATE_TIMEOUT_MS = 15000;
+
+// Wrap a request so slow models surface as a "timed out" error (treated as temporary by the queue)
+export const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<T> => {
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+      setTimeout(() => reject(new Error(`Request timed out (${Math.round(timeoutMs / 1000)}s limit)`)), timeoutMs)
+    ),
+  ]);
+};
+
+// Coerce parsed JSON into the schema shape: missing strings become '', arrays stay arrays.
+// Keeps the rest of the app safe from "keywords: null" style answers.
+const coerce = (value: any, schema: SchemaNode): any => {
+  if (schema.type === 'string') {
+    if (value === null || value === undefined) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  if (schema.type === 'array') {
+    const list = Array.isArray(value) ? value : value === null || value === undefined || value === '' ? [] : [value];
+    return list.map(v => coerce(v, schema.items));
+  }
+  const source = value && typeof value === 'object' ? value : {};
+  const out: Record<string, any> = {};
+  Object.entries(schema.properties).forEach(([key, child]) => {
+    out[key] = coerce(source[key], child);
+  });
+  return out;
+};
+
+// Parse model text into JSON. Local models often wrap JSON in ```json fences or add chatter.
+export const parseStructuredOutput = <T = any>(text: string | undefined | null, schema: SchemaNode): T => {
+  if (!text || !text.trim()) throw new Error("Empty response from AI");
+
+  let jsonText = text.trim();
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(jsonText);
+  if (fenced) jsonText = fenced[1].trim();
+
+  if (!jsonText.startsWith('{') && !jsonText.startsWith('[')) {
+    const start = jsonText.indexOf('{');
+    const end = jsonText.lastIndexOf('}');
+    if (start !== -1 && end > start) jsonText = jsonText.slice(start, end + 1);
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch {
+    throw new Error("AI returned invalid JSON");
+  }
+  return coerce(parsed, schema) as T;
+};
+
+// Standard JSON Schema (OpenAI-compatible response_format)
+export const toJsonSchema = (schema: SchemaNode): Record<string, any> => {
+  if (schema.type === 'string') return { type: 'string', ...(schema.description ? { description: schema.description } : {}) };
+  if (schema.type === 'array') return { type: 'array', items: toJsonSchema(schema.items) };
+  return {
+    type: 'object',
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)])),
+    required: schema.required || Object.keys(schema.properties),
+    additionalProperties: false,
+  };
+};
@@ -0,0 +1,38 @@
+import { AIProviderId } from "../../types";
+
+// Provider-neutral JSON schema (subset). Each provider converts it to its own format.
+export type SchemaNode =
+  | { type: 'string'; description?: string }
+  | { type: 'array'; items: SchemaNode; description?: string }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[]; description?: string };
+
+export type ContentPart =
+  | { inlineData: { data: string; mimeType: string } }
+  | { text: string };
+
+export interface StructuredRequest {
+  systemInstruction?: string;
+  parts: ContentPart[];
+  schema: SchemaNode;
+  timeoutMs?: number;
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  shortLabel: string; // For the compact provider switch
+  requiresApiKey: boolean;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+  // Sends one (multimodal) request and returns the parsed JSON, shaped like `schema`.
+  // Metadata generation, translation and keyword top-ups are all built on this call.
+  generateStructured: <T = any>(request: StructuredRequest, config: ProviderConfig) => Promise<T>;
+  // Cheapest real call (one output token) to check the key/endpoint. Rejects with the provider error.
+  validateKey: (config: ProviderConfig) => Promise<void>;
+}
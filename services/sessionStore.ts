@@ -0,0 +1,155 @@
+import { ApiKeyEntry, AppSettings, FileItem, Language, LogEntry } from "../types";
+
+// --- SESSION PERSISTENCE (IndexedDB) ---
+// Keeps the working batch alive across reloads/crashes.
+// Blobs are written once per file (they never change); records are rewritten when the item changes.
+// API keys are only stored when the user opts in (settings.persistApiKeys), and removed when they opt out.
+
+const DB_NAME = 'isapromeSession';
+const DB_VERSION = 1;
+const STORE_BLOBS = 'blobs';
+const STORE_FILES = 'files';
+const STORE_STATE = 'state';
+
+// FileItem without the runtime-only fields (File lives in its own store, blob URLs are recreated)
+export type StoredFileRecord = Omit<FileItem, 'file' | 'previewUrl'> & { order: number };
+
+export interface StoredSession {
+  files: { record: StoredFileRecord; file: File }[];
+  settings?: Partial<AppSettings>;
+  fileLanguages?: Record<string, Language>;
+  logs?: LogEntry[];
+  apiKeys?: ApiKeyEntry[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_BLOBS)) db.createObjectStore(STORE_BLOBS);
+        if (!db.objectStoreNames.contains(STORE_FILES)) db.createObjectStore(STORE_FILES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(STORE_STATE)) db.createObjectStore(STORE_STATE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const toStoredRecord = (item: FileItem, order: number): StoredFileRecord => {
+  const { file, previewUrl, ...rest } = item;
+  return { ...rest, order };
+};
+
+// Storage full (browser quota): retrying the same write won't help
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export interface SaveFilesResult {
+  unsavedBlobIds: string[]; // Added files whose bytes could not be stored (records are saved anyway)
+  blobError: unknown;       // First blob failure, null when every blob was stored
+}
+
+// Diff-based write: only changed/added items are stored, removed items are deleted.
+// Records (metadata) go first in their own transaction, so edits survive even when blobs can't
+// be stored; each new blob then gets its own transaction, so one oversized file only fails itself.
+// Throws when the records could not be written.
+export const saveFiles = async (
+  files: FileItem[],
+  changed: FileItem[],
+  addedIds: Set<string>,
+  removedIds: string[]
+): Promise<SaveFilesResult> => {
+  const result: SaveFilesResult = { unsavedBlobIds: [], blobError: null };
+  if (changed.length === 0 && removedIds.length === 0) return result;
+  const db = await openDb();
+
+  const tx = db.transaction([STORE_BLOBS, STORE_FILES], 'readwrite');
+  const records = tx.objectStore(STORE_FILES);
+  const orderById = new Map(files.map((f, i) => [f.id, i]));
+  changed.forEach(item => records.put(toStoredRecord(item, orderById.get(item.id) ?? 0)));
+  removedIds.forEach(id => {
+    tx.objectStore(STORE_BLOBS).delete(id);
+    records.delete(id);
+  });
+  await transactionDone(tx);
+
+  const added = changed.filter(item => addedIds.has(item.id));
+  for (const [index, item] of added.entries()) {
+    try {
+      const blobTx = db.transaction(STORE_BLOBS, 'readwrite');
+      blobTx.objectStore(STORE_BLOBS).put(item.file, item.id);
+      await transactionDone(blobTx);
+    } catch (error) {
+      result.blobError = result.blobError ?? error;
+      // Once storage is full, the remaining blobs would fail the same way
+      if (isQuotaError(error)) {
+        result.unsavedBlobIds.push(...added.slice(index).map(f => f.id));
+        break;
+      }
+      result.unsavedBlobIds.push(item.id);
+    }
+  }
+  return result;
+};
+
+type StateKey = 'settings' | 'fileLanguages' | 'logs' | 'apiKeys';
+
+export const saveState = async (key: StateKey, value: unknown): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_STATE, 'readwrite');
+  tx.objectStore(STORE_STATE).put(value, key);
+  await transactionDone(tx);
+};
+
+export const deleteState = async (key: StateKey): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_STATE, 'readwrite');
+  tx.objectStore(STORE_STATE).delete(key);
+  await transactionDone(tx);
+};
+
+export const loadSession = async (): Promise<StoredSession> => {
+  const db = await openDb();
+  const tx = db.transaction([STORE_BLOBS, STORE_FILES, STORE_STATE], 'readonly');
+
+  // All requests are issued up-front so the transaction never goes idle between awaits
+  const [records, blobKeys, blobs, settings, fileLanguages, logs, apiKeys] = await Promise.all([
+    promisify(tx.objectStore(STORE_FILES).getAll() as IDBRequest<StoredFileRecord[]>),
+    promisify(tx.objectStore(STORE_BLOBS).getAllKeys()),
+    promisify(tx.objectStore(STORE_BLOBS).getAll() as IDBRequest<File[]>),
+    promisify(tx.objectStore(STORE_STATE).get('settings')),
+    promisify(tx.objectStore(STORE_STATE).get('fileLanguages')),
+    promisify(tx.objectStore(STORE_STATE).get('logs')),
+    promisify(tx.objectStore(STORE_STATE).get('apiKeys')),
+  ]);
+
+  const blobById = new Map(blobKeys.map((key, i) => [String(key), blobs[i]]));
+  const files: StoredSession['files'] = records
+    .sort((a, b) => a.order - b.order)
+    .filter(record => blobById.has(record.id))
+    .map(record => ({ record, file: blobById.get(record.id)! }));
+
+  return { files, settings, fileLanguages, logs, apiKeys };
+};
@@ -10,6 +10,7 @@ export enum ProcessingStatus {
   Processing = 'processing',
   Completed = 'completed',
   Failed = 'failed',
+  Embedded = 'embedded', // Imported with existing IPTC/XMP metadata, waiting for Keep / Enhance / Overwrite
 }
 
 export interface LocalizedContent {
@@ -18,14 +19,15 @@ export interface LocalizedContent {
 }
 
 export interface FileMetadata {
-  en: LocalizedContent;
-  ind: LocalizedContent;
+  en: LocalizedContent; // Source of truth (exports, embedding, compliance)
+  translations: Record<string, LocalizedContent>; // Keyed by locale code ('id', 'de', 'ja'...)
   category: string; // ID of the category (Global)
 }
 
 export interface FileItem {
   id: string;
   file: File;
+  relativePath?: string; // Path inside the upload ("shoot/day1/cat.jpg"); just the name for single files
   previewUrl: string; // For images: blob url. For video: blob url of the middle frame.
   thumbnail?: string; // NEW: Lightweight base64 image for UI display (proxy for heavy video)
   extractedFrames?: string[]; // Specifically for video: [start, middle, end] base64 strings
@@ -33,8 +35,55 @@ export interface FileItem {
   status: ProcessingStatus;
   metadata: FileMetadata;
   error?: string;
+  enhanceExisting?: boolean; // AI should refine the prefilled (embedded) metadata instead of starting from scratch
+  signature?: ImageSignature; // Local visual fingerprint (series + near-duplicate detection)
+  contentHash?: string; // SHA-256 of the bytes (exact duplicate rejection)
+  isVariant?: boolean; // User confirmed it is an intentional variant, not a near-duplicate
+  frameTimes?: number[]; // Video: seconds of the frames sent to the AI (last run, or picked by the user)
+  framesPinned?: boolean; // Video: frameTimes were picked by the user and are reused instead of sampling
+  videoInfo?: VideoInfo; // Video: technical facts read locally on import
+  companion?: File; // EPS/AI: same-name JPG/PNG preview from the upload (used for analysis & preview)
+  pdfInfo?: PdfInfo; // PDF: page count, rendered page and its artboard size
 }
 
+export interface PdfInfo {
+  pageCount: number;
+  page: number; // 1-based page used for analysis, thumbnail and preview
+  width: number; // Artboard in points (1/72 inch)
+  height: number;
+}
+
+export interface VideoInfo {
+  duration: number; // Seconds
+  width: number;
+  height: number;
+  fps?: number; // Unknown outside MP4/MOV
+  hasAudio?: boolean; // Unknown when neither the container nor the browser tells
+}
+
+export interface ApiKeyEntry {
+  id: string;
+  label: string; // Shown in the panel and the logs instead of the key itself
+  key: string;
+  enabled: boolean;
+  status: ApiKeyStatus; // Last known; see getKeyStatus for the effective one (cooldowns and quotas expire)
+  cooldownUntil?: number; // Timestamp, with status 'cooldown'
+  successCount: number;
+  failureCount: number;
+  requestsToday: number;
+  usageDay: string; // Local day requestsToday belongs to ("2026-10-19")
+  lastError?: string;
+}
+
+export type ApiKeyStatus = 'active' | 'cooldown' | 'invalid' | 'quota';
+
+export interface ImageSignature {
+  dHash: string; // 64-bit difference hash (hex)
+  histogram: number[]; // Normalized 4x4x4 RGB histogram
+}
+
+export type EmbeddedAction = 'keep' | 'enhance' | 'overwrite';
+
 export interface Category {
   id: string;
   en: string;
@@ -46,8 +95,58 @@ export interface AppSettings {
   customKeyword: string;
   slideTitle: number; // Target character length (0-200)
   slideKeyword: number; // Target keyword count (0-50)
-  selectedFileType: FileType;
+  selectedFileType: UploadMode; // One type (strict filtering) or 'Auto' (detected per file)
   csvFilename: string;
+  exportProfiles: ExportProfileId[]; // One CSV is written per selected agency profile
+  targetLanguages: Language[]; // Translations generated next to English
+  exportLanguage: Language; // Locale written to CSV (default 'en')
+  complianceMode: ComplianceMode; // What the CSV download does when files break agency rules
+  blocklistTerms: string[]; // User blocklist (added to the built-in brand/tech/file-type terms)
+  blocklistDisabled: string[]; // Built-in terms switched off by the user (false positives for their work)
+  blocklistAction: BlocklistAction; // Blocked terms found after generation are removed or only flagged
+  nearDuplicateThreshold: number; // Visual similarity (%) from which uploads are grouped as near-duplicates
+  videoFrameCount: number; // Frames sent to the AI per video (max, in scene mode)
+  videoSamplingMode: VideoSamplingMode;
+  videoMinDuration: number; // Seconds; shorter clips are flagged (0 = no check)
+  videoMinResolution: number; // Short side in px; smaller clips are flagged (0 = no check)
+  aiProvider: AIProviderId;
+  aiModel: string; // Empty = provider default
+  aiBaseUrl: string; // OpenAI-compatible endpoint (e.g. Ollama / LM Studio). Empty = provider default
+  persistApiKeys: boolean; // Keep the key list (with its stats) in this browser across reloads
+  promptPresets: PromptPreset[]; // User presets (the built-in default is not stored)
+  promptPresetByType: Record<FileType, string>; // Preset id used for each FileType
 }
 
-export type Language = 'ENG' | 'IND';
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string; // System instruction with {{placeholders}}
+}
+
+export type ComplianceMode = 'warn' | 'block';
+
+export type BlocklistAction = 'remove' | 'flag';
+
+export type VideoSamplingMode = 'even' | 'scene';
+
+export type UploadMode = FileType | 'Auto';
+
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export type ExportProfileId = 'adobe' | 'shutterstock' | 'freepik' | 'dreamstime' | '123rf' | 'vecteezy';
+
+// Locale code: 'en' (source) or any code from SUPPORTED_LANGUAGES
+export type Language = string;
+
+export interface LanguageInfo {
+  code: Language;
+  label: string; // Short badge text (ENG, IND, DEU...)
+  name: string; // Full English name, used in prompts
+}
+
+export interface LogEntry {
+  id: string;
+  time: string;
+  message: string;
+  type: 'info' | 'success' | 'error' | 'warning';
+}
@@ -0,0 +1,97 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKeyEntry, ApiKeyStatus } from "../types";
+
+// --- API KEY POOL ---
+// Each key carries its own health and usage so the queue can skip dead keys and the panel can
+// show why. Stored statuses are "sticky"; the effective one is derived from the clock:
+// a cooldown ends at cooldownUntil, a daily quota ends when the local day changes.
+
+export const KEY_COOLDOWN_MS = 30000;
+
+// Local calendar day ("2026-10-19"): requestsToday and quota exhaustion reset when it changes
+export const dayKey = (time: number): string => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const createApiKeyEntry = (key: string, label: string): ApiKeyEntry => ({
+  id: uuidv4(),
+  label,
+  key,
+  enabled: true,
+  status: 'active',
+  successCount: 0,
+  failureCount: 0,
+  requestsToday: 0,
+  usageDay: dayKey(Date.now()),
+});
+
+// Pasted text -> keys (one per line, comma or whitespace separated), unknown ones only
+export const parseApiKeys = (text: string, existing: ApiKeyEntry[]): string[] => {
+  const known = new Set(existing.map(k => k.key));
+  return Array.from(new Set(text.split(/[\s,]+/).map(k => k.trim()).filter(k => k.length > 0 && !known.has(k))));
+};
+
+// "AIza…x9Q2"
+export const maskApiKey = (key: string): string =>
+  key.length <= 8 ? '•'.repeat(key.length) : `${key.slice(0, 4)}…${key.slice(-4)}`;
+
+export const getKeyStatus = (entry: ApiKeyEntry, now: number): ApiKeyStatus => {
+  if (entry.status === 'quota' && entry.usageDay !== dayKey(now)) return 'active';
+  if (entry.status === 'cooldown' && (entry.cooldownUntil ?? 0) <= now) return 'active';
+  return entry.status;
+};
+
+export const getRequestsToday = (entry: ApiKeyEntry, now: number): number =>
+  entry.usageDay === dayKey(now) ? entry.requestsToday : 0;
+
+// Worth sending requests to (possibly after its cooldown)
+export const isKeyAvailable = (entry: ApiKeyEntry, now: number): boolean => {
+  const status = getKeyStatus(entry, now);
+  return entry.enabled && status !== 'invalid' && status !== 'quota';
+};
+
+// Keys the queue can use. Local/offline providers run without keys: a single empty key keeps the
+// pool logic unchanged.
+export const buildKeyPool = (keys: ApiKeyEntry[], requiresApiKey: boolean, now: number): string[] => {
+  const available = keys.filter(k => isKeyAvailable(k, now)).map(k => k.key);
+  return available.length > 0 || requiresApiKey ? available : [''];
+};
+
+// Error text -> what it says about the key (null = nothing, e.g. a bad file or a safety block).
+// Per-minute limits only need a cooldown; per-day quotas and exhausted credit last until tomorrow.
+export const classifyKeyError = (message: string): Exclude<ApiKeyStatus, 'active'> | null => {
+  const text = message.toLowerCase();
+  if (/api[ _-]?key (?:not valid|invalid|expired)|invalid[ _-]api[ _-]key|unauthenticated|unauthorized|permission[ _-]denied|\b401\b/.test(text)) {
+    return 'invalid';
+  }
+  if (/per ?day|perday|daily|insufficient_quota|billing/.test(text)) return 'quota';
+  if (text.includes('429') || text.includes('quota') || text.includes('overloaded') || text.includes('timeout') || text.includes('timed out') || text.includes('fetch failed')) {
+    return 'cooldown';
+  }
+  return null;
+};
+
+// One request made with the key: counters (day rollover included) and the resulting status
+export const recordKeyRequest = (
+  entry: ApiKeyEntry,
+  outcome: { ok: true } | { ok: false; status: Exclude<ApiKeyStatus, 'active'> | null; error: string },
+  now: number
+): ApiKeyEntry => {
+  const today = dayKey(now);
+  const next: ApiKeyEntry = {
+    ...entry,
+    usageDay: today,
+    requestsToday: (entry.usageDay === today ? entry.requestsToday : 0) + 1,
+    successCount: entry.successCount + (outcome.ok ? 1 : 0),
+    failureCount: entry.failureCount + (outcome.ok ? 0 : 1),
+  };
+  if (outcome.ok) return { ...next, status: 'active', cooldownUntil: undefined, lastError: undefined };
+  if (!outcome.status) return { ...next, lastError: outcome.error };
+  return {
+    ...next,
+    status: outcome.status,
+    cooldownUntil: outcome.status === 'cooldown' ? now + KEY_COOLDOWN_MS : undefined,
+    lastError: outcome.error,
+  };
+};
@@ -0,0 +1,105 @@
+import { AppSettings, FileType, LocalizedContent } from "../types";
+
+// --- BLOCKLIST ---
+// Terms that must never appear in titles or keywords (any language).
+// Built-in lists + per-FileType negatives + the user's own list. Injected into the prompt
+// and enforced again after generation, because models ignore prose rules often enough.
+// Single built-in terms can be switched off (settings.blocklistDisabled) when they hit valid content.
+
+export type BlocklistSource = 'brand' | 'person' | 'tech' | 'fileType' | 'user';
+
+export interface BlocklistEntry {
+  term: string;
+  source: BlocklistSource;
+}
+
+// Unambiguous trademarks only. Words that are also ordinary nouns or phrases ("apple", "amazon",
+// "windows", "puma", "tesla", "marvel", "red bull") are valid subjects and stay out: with the
+// default 'remove' action they would silently cut the main subject from a title.
+export const BRAND_TERMS = [
+  'iphone', 'ipad', 'macbook', 'airpods', 'samsung', 'nike', 'adidas', 'coca-cola', 'coca cola', 'pepsi',
+  'google', 'facebook', 'instagram', 'youtube', 'tiktok', 'twitter', 'whatsapp', 'microsoft', 'netflix', 'spotify',
+  'lego', 'disney', 'pokemon', 'mcdonalds', "mcdonald's", 'starbucks', 'bmw',
+  'mercedes-benz', 'ferrari', 'porsche', 'lamborghini', 'toyota', 'playstation', 'xbox', 'nintendo', 'gucci',
+  'louis vuitton', 'rolex', 'chanel', 'ikea', 'chatgpt', 'openai',
+];
+
+export const PUBLIC_FIGURE_TERMS = [
+  'elon musk', 'taylor swift', 'donald trump', 'joe biden', 'barack obama', 'cristiano ronaldo', 'lionel messi',
+  'queen elizabeth', 'king charles', 'pope francis', 'kim kardashian', 'beyonce', 'jokowi', 'prabowo',
+];
+
+export const TECH_SPEC_TERMS = ['4k', '8k', 'hd', 'uhd', 'full hd', 'ultra hd', '1080p', '720p', '60fps', 'fps'];
+
+// Mirrors the vector negative prompt; video/image have fewer format words to guard against
+export const FILE_TYPE_TERMS: Record<FileType, string[]> = {
+  [FileType.Image]: ['jpg', 'jpeg', 'raw file'],
+  [FileType.Video]: ['mp4', 'mov', 'footage file', 'stock footage'],
+  [FileType.Vector]: [
+    'white background', 'transparent background', 'isolated', 'png', 'background white',
+    'no shadow background', 'watermark', 'clipart', 'vector file', 'eps', 'svg',
+  ],
+};
+
+export const getBlocklist = (fileType: FileType, settings: AppSettings): BlocklistEntry[] => {
+  const disabled = new Set(settings.blocklistDisabled);
+  const builtIn: BlocklistEntry[] = [
+    ...BRAND_TERMS.map(term => ({ term, source: 'brand' as const })),
+    ...PUBLIC_FIGURE_TERMS.map(term => ({ term, source: 'person' as const })),
+    ...TECH_SPEC_TERMS.map(term => ({ term, source: 'tech' as const })),
+    ...FILE_TYPE_TERMS[fileType].map(term => ({ term, source: 'fileType' as const })),
+  ];
+  const entries: BlocklistEntry[] = [
+    ...builtIn.filter(e => !disabled.has(e.term)),
+    ...settings.blocklistTerms.map(term => ({ term, source: 'user' as const })),
+  ];
+  const seen = new Set<string>();
+  return entries
+    .map(e => ({ ...e, term: e.term.trim().toLowerCase() }))
+    .filter(e => e.term && !seen.has(e.term) && seen.add(e.term));
+};
+
+export const getBlockedTerms = (fileType: FileType, settings: AppSettings): string[] => {
+  return getBlocklist(fileType, settings).map(e => e.term);
+};
+
+// User list input: one term per line or comma separated
+export const parseBlocklistInput = (text: string): string[] => {
+  return Array.from(new Set(text.split(/[,\n]+/).map(t => t.trim().toLowerCase()).filter(Boolean)));
+};
+
+// --- MATCHING ---
+// Whole words/phrases, case-insensitive, Unicode-aware so it also works on translations
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string, flags = 'iu') =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term).replace(/[\s-]+/g, '[\\s-]+')}(?=$|[^\\p{L}\\p{N}])`, flags);
+
+export const findBlockedTerms = (text: string, terms: string[]): string[] => {
+  if (!text) return [];
+  return terms.filter(term => termPattern(term).test(text));
+};
+
+// Cut the terms out of a title and tidy what is left ("Aerial 4K drone shot" -> "Aerial drone shot")
+export const stripBlockedTerms = (text: string, terms: string[]): string => {
+  const stripped = terms.reduce((result, term) => result.replace(termPattern(term, 'giu'), '$1'), text);
+  return stripped
+    .replace(/\s{2,}/g, ' ')
+    .replace(/\s+([,.;:!?])/g, '$1')
+    .replace(/([,;:])(?=\s*[,;:.]|\s*$)/g, '')
+    .replace(/^[\s,.;:-]+|[\s,;:-]+$/g, '')
+    .trim();
+};
+
+// Blocked terms found anywhere in a localized title/keywords pair
+export const findBlockedInContent = (content: LocalizedContent, terms: string[]): string[] => {
+  return Array.from(new Set([...findBlockedTerms(content.title, terms), ...findBlockedTerms(content.keywords, terms)]));
+};
+
+// Prompt block ({{blocklist}} placeholder)
+export const buildBlocklistInstruction = (fileType: FileType, settings: AppSettings): string => {
+  const terms = getBlockedTerms(fileType, settings);
+  if (terms.length === 0) return '';
+  return `\n\nFORBIDDEN TERMS (never use in the title or keywords, in any language; describe the generic object instead):\n${terms.join(', ')}`;
+};
@@ -0,0 +1,79 @@
+import { FileItem, LocalizedContent, ProcessingStatus } from "../types";
+import { splitKeywords } from "./exportProfiles";
+import { joinKeywords, normalizeKeyword } from "./keywords";
+
+// --- BULK EDITING ---
+// Pure operations applied to the English (source) content of every selected file.
+// The caller runs the usual keyword cleanup and translation sync afterwards.
+
+export type BulkOperation =
+  | { kind: 'category'; category: string }
+  | { kind: 'addKeywords'; keywords: string; position: number } // 1-based, 0 = append
+  | { kind: 'removeKeywords'; keywords: string }
+  | { kind: 'replace'; find: string; replace: string; target: 'title' | 'keywords' | 'both'; useRegex: boolean; caseSensitive: boolean }
+  | { kind: 'titleAffix'; prefix: string; suffix: string };
+
+export type BulkSelector = 'all' | 'none' | ProcessingStatus | `category:${string}`;
+
+export const describeBulkOperation = (op: BulkOperation): string => {
+  switch (op.kind) {
+    case 'category': return `Set category ${op.category}`;
+    case 'addKeywords': return `Add keywords "${op.keywords}"${op.position > 0 ? ` at #${op.position}` : ''}`;
+    case 'removeKeywords': return `Remove keywords "${op.keywords}"`;
+    case 'replace': return `Replace "${op.find}" → "${op.replace}" in ${op.target === 'both' ? 'title & keywords' : op.target}`;
+    case 'titleAffix': return `Title affix "${op.prefix}…${op.suffix}"`;
+  }
+};
+
+// Throws on an invalid pattern so the UI can show the message before anything is changed
+export const buildFindPattern = (op: Extract<BulkOperation, { kind: 'replace' }>): RegExp => {
+  const source = op.useRegex ? op.find : op.find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(source, op.caseSensitive ? 'g' : 'gi');
+};
+
+const insertKeywords = (keywords: string, add: string, position: number): string => {
+  const additions = splitKeywords(add);
+  const addKeys = new Set(additions.map(normalizeKeyword));
+  // Re-adding an existing keyword moves it to the requested position
+  const current = splitKeywords(keywords).filter(k => !addKeys.has(normalizeKeyword(k)));
+  const index = position > 0 ? Math.min(position - 1, current.length) : current.length;
+  return joinKeywords([...current.slice(0, index), ...additions, ...current.slice(index)]);
+};
+
+const removeKeywords = (keywords: string, remove: string): string => {
+  const removeKeys = new Set(splitKeywords(remove).map(normalizeKeyword));
+  return joinKeywords(splitKeywords(keywords).filter(k => !removeKeys.has(normalizeKeyword(k))));
+};
+
+const tidyTitle = (title: string) => title.replace(/\s{2,}/g, ' ').trim();
+
+export const applyBulkOperation = (content: LocalizedContent, op: BulkOperation): LocalizedContent => {
+  switch (op.kind) {
+    case 'addKeywords':
+      return { ...content, keywords: insertKeywords(content.keywords, op.keywords, op.position) };
+    case 'removeKeywords':
+      return { ...content, keywords: removeKeywords(content.keywords, op.keywords) };
+    case 'replace': {
+      const pattern = buildFindPattern(op);
+      return {
+        title: op.target === 'keywords' ? content.title : tidyTitle(content.title.replace(pattern, op.replace)),
+        keywords: op.target === 'title' ? content.keywords : content.keywords.replace(pattern, op.replace),
+      };
+    }
+    case 'titleAffix':
+      return { ...content, title: tidyTitle(`${op.prefix} ${content.title} ${op.suffix}`) };
+    case 'category':
+      return content;
+  }
+};
+
+// Ids matched by a "select by" choice (status or category)
+export const selectFileIds = (files: FileItem[], selector: BulkSelector): string[] => {
+  if (selector === 'none') return [];
+  if (selector === 'all') return files.map(f => f.id);
+  if (selector.startsWith('category:')) {
+    const category = selector.slice('category:'.length);
+    return files.filter(f => f.metadata.category === category).map(f => f.id);
+  }
+  return files.filter(f => f.status === selector).map(f => f.id);
+};
@@ -0,0 +1,49 @@
+import { FileItem, FileType } from "../types";
+import { ImportedFile } from "./fileImport";
+
+// --- COMPANION PREVIEWS (EPS / AI) ---
+// Browsers (and the AI) can't read EPS/AI. Agencies already require a same-name JPEG next to
+// each EPS, so we pair it: "icons/cat.eps" + "icons/cat.jpg". The companion is used for the
+// analysis, the thumbnail and the preview; the vector itself is still what gets exported.
+
+const COMPANION_TYPES = ['image/jpeg', 'image/png'];
+const COMPANION_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+const NEEDS_COMPANION_EXTENSIONS = ['.eps', '.ai'];
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+// Folder (from a folder upload or drop) + name without extension, case-insensitive
+export const companionKey = (path: string) => {
+  const dot = path.lastIndexOf('.');
+  return (dot > path.lastIndexOf('/') ? path.slice(0, dot) : path).toLowerCase();
+};
+
+export const isCompanionCandidate = (file: File) =>
+  COMPANION_TYPES.includes(file.type) || COMPANION_EXTENSIONS.includes(extensionOf(file.name));
+
+export const needsCompanion = (file: File) => NEEDS_COMPANION_EXTENSIONS.includes(extensionOf(file.name));
+
+// EPS/AI without a usable preview: analysed from raw bytes (mostly guesses) and shown as a placeholder
+export const isMissingCompanion = (item: FileItem) =>
+  item.type === FileType.Vector && needsCompanion(item.file) && !item.companion;
+
+// Companion per vector (by index). When several images share the name, JPG beats PNG.
+export const pairCompanions = (vectors: ImportedFile[], candidates: ImportedFile[]): Map<number, File> => {
+  const byKey = new Map<string, File>();
+  candidates.forEach(({ file, relativePath }) => {
+    const key = companionKey(relativePath);
+    const existing = byKey.get(key);
+    if (!existing || (existing.type === 'image/png' && file.type === 'image/jpeg')) byKey.set(key, file);
+  });
+
+  const pairs = new Map<number, File>();
+  vectors.forEach((vector, index) => {
+    if (!needsCompanion(vector.file)) return;
+    const companion = byKey.get(companionKey(vector.relativePath));
+    if (companion) pairs.set(index, companion);
+  });
+  return pairs;
+};
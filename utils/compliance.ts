@@ -0,0 +1,188 @@
+import { AppSettings, ExportProfileId, FileItem, FileMetadata, Language, LocalizedContent, ProcessingStatus } from "../types";
+import { ExportProfile, EXPORT_PROFILES, getExportProfile, splitKeywords } from "./exportProfiles";
+import { findDuplicateKeywords } from "./keywords";
+import { getLanguageInfo, getLocalizedContent, SOURCE_LANGUAGE } from "./locales";
+import { findBlockedInContent, getBlockedTerms } from "./blocklist";
+
+// --- COMPLIANCE LINTER ---
+// Checks metadata against agency submission rules before export.
+// Adobe Stock rules are built in; other agencies get a rule set derived from their export profile
+// until they are given their own entry in AGENCY_RULES.
+
+export type ComplianceSeverity = 'error' | 'warning';
+
+export interface ComplianceIssue {
+  rule: string;
+  severity: ComplianceSeverity;
+  field: 'title' | 'keywords' | 'category';
+  badge: string;       // Short label for the card ("Title 210/200")
+  message: string;     // Full explanation (tooltip / logs)
+  profiles: string[];  // Agencies that raised it
+}
+
+export interface ComplianceRuleSet {
+  maxTitleLength: number;
+  minTitleWords: number;
+  minKeywords: number;
+  maxKeywords: number;
+  requireCategory: boolean;
+  forbiddenTokens: string[]; // Matched as whole words, case-insensitive
+}
+
+interface RuleContext {
+  metadata: FileMetadata;
+  content: LocalizedContent;
+  keywords: string[];
+  category: string;
+  language: Language;
+  rules: ComplianceRuleSet;
+  blockedTerms: string[];
+}
+
+type ComplianceRule = (ctx: RuleContext) => Omit<ComplianceIssue, 'profiles'>[];
+
+// Submission noise agencies reject in titles and keywords
+// (tech specs like 4K/HD are part of the blocklist, checked in every language)
+const SUBMISSION_TOKENS = ['copyright', 'watermark', 'royalty free', 'stock photo', 'photo by'];
+
+const AGENCY_RULES: Partial<Record<ExportProfileId, ComplianceRuleSet>> = {
+  adobe: {
+    maxTitleLength: 200,
+    minTitleWords: 5,
+    minKeywords: 5,
+    maxKeywords: 49,
+    requireCategory: true,
+    forbiddenTokens: SUBMISSION_TOKENS,
+  },
+};
+
+const deriveRuleSet = (profile: ExportProfile): ComplianceRuleSet => ({
+  maxTitleLength: profile.maxTitleLength,
+  minTitleWords: 3,
+  minKeywords: 5,
+  maxKeywords: profile.maxKeywords,
+  requireCategory: !!profile.categoryMap,
+  forbiddenTokens: SUBMISSION_TOKENS,
+});
+
+export const getComplianceRules = (profileId: ExportProfileId): ComplianceRuleSet => {
+  return AGENCY_RULES[profileId] || deriveRuleSet(getExportProfile(profileId));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findTokens = (text: string, tokens: string[]): string[] => {
+  return tokens.filter(token => new RegExp(`(^|[^a-z0-9])${escapeRegExp(token)}($|[^a-z0-9])`, 'i').test(text));
+};
+
+// --- RULES ---
+
+const RULES: ComplianceRule[] = [
+  // Empty fields
+  ({ content, keywords, category, rules }) => [
+    ...(!content.title.trim() ? [{ rule: 'title-empty', severity: 'error' as const, field: 'title' as const, badge: 'No title', message: 'Title is empty.' }] : []),
+    ...(keywords.length === 0 ? [{ rule: 'keywords-empty', severity: 'error' as const, field: 'keywords' as const, badge: 'No keywords', message: 'Keyword list is empty.' }] : []),
+    ...(rules.requireCategory && !category ? [{ rule: 'category-empty', severity: 'error' as const, field: 'category' as const, badge: 'No category', message: 'Category is required.' }] : []),
+  ],
+
+  // Title length / detail
+  ({ content, rules }) => {
+    const title = content.title.trim();
+    if (!title) return [];
+    const words = title.split(/\s+/).length;
+    return [
+      ...(title.length > rules.maxTitleLength ? [{ rule: 'title-length', severity: 'error' as const, field: 'title' as const, badge: `Title ${title.length}/${rules.maxTitleLength}`, message: `Title is ${title.length} characters (max ${rules.maxTitleLength}); it would be cut on export.` }] : []),
+      ...(words < rules.minTitleWords ? [{ rule: 'title-short', severity: 'warning' as const, field: 'title' as const, badge: 'Short title', message: `Title has ${words} word(s); at least ${rules.minTitleWords} are recommended.` }] : []),
+    ];
+  },
+
+  // Keyword count
+  ({ keywords, rules }) => {
+    if (keywords.length === 0) return [];
+    if (keywords.length > rules.maxKeywords) {
+      return [{ rule: 'keyword-count', severity: 'error', field: 'keywords', badge: `${keywords.length}/${rules.maxKeywords} keywords`, message: `${keywords.length} keywords (max ${rules.maxKeywords}); the extra ones would be dropped on export.` }];
+    }
+    if (keywords.length < rules.minKeywords) {
+      return [{ rule: 'keyword-count', severity: 'warning', field: 'keywords', badge: `${keywords.length} keywords`, message: `Only ${keywords.length} keywords (at least ${rules.minKeywords} recommended).` }];
+    }
+    return [];
+  },
+
+  // Duplicate keywords (incl. plural/singular)
+  ({ keywords, language }) => {
+    const duplicates = findDuplicateKeywords(keywords, language);
+    return duplicates.length > 0
+      ? [{ rule: 'keyword-duplicate', severity: 'warning', field: 'keywords', badge: `${duplicates.length} duplicate`, message: `Duplicate keywords: ${duplicates.join(', ')}` }]
+      : [];
+  },
+
+  // Forbidden tokens (watermark/copyright notes)
+  ({ content, keywords, rules }) => {
+    const inTitle = findTokens(content.title, rules.forbiddenTokens);
+    const inKeywords = rules.forbiddenTokens.filter(token => keywords.some(k => findTokens(k, [token]).length > 0));
+    return [
+      ...(inTitle.length > 0 ? [{ rule: 'forbidden-title', severity: 'error' as const, field: 'title' as const, badge: `"${inTitle[0]}" in title`, message: `Forbidden in title: ${inTitle.join(', ')}` }] : []),
+      ...(inKeywords.length > 0 ? [{ rule: 'forbidden-keywords', severity: 'error' as const, field: 'keywords' as const, badge: `"${inKeywords[0]}" in keywords`, message: `Forbidden in keywords: ${inKeywords.join(', ')}` }] : []),
+    ];
+  },
+
+  // Blocklist (brands, public figures, tech specs, user terms) in any language
+  ({ metadata, blockedTerms }) => {
+    const locales: [Language, LocalizedContent][] = [[SOURCE_LANGUAGE, metadata.en], ...Object.entries(metadata.translations)];
+    const hits = locales
+      .map(([code, content]) => [code, findBlockedInContent(content, blockedTerms)] as const)
+      .filter(([, terms]) => terms.length > 0);
+    if (hits.length === 0) return [];
+    const terms = Array.from(new Set(hits.flatMap(([, t]) => t)));
+    return [{
+      rule: 'blocklist',
+      severity: 'error',
+      field: 'keywords',
+      badge: `Blocked: ${terms[0]}${terms.length > 1 ? ` +${terms.length - 1}` : ''}`,
+      message: `Blocked terms: ${hits.map(([code, t]) => `${getLanguageInfo(code).label} ${t.join(', ')}`).join('; ')}`,
+    }];
+  },
+
+  // Non-ASCII characters (smart quotes, emoji, untranslated text) in English metadata
+  ({ content, keywords, language }) => {
+    if (language !== SOURCE_LANGUAGE) return [];
+    const chars = Array.from(new Set(`${content.title} ${keywords.join(' ')}`.match(/[^\x20-\x7E]/g) || []));
+    return chars.length > 0
+      ? [{ rule: 'non-ascii', severity: 'warning', field: chars.some(c => content.title.includes(c)) ? 'title' : 'keywords', badge: 'Non-ASCII', message: `Non-ASCII characters: ${chars.join(' ')}` }]
+      : [];
+  },
+];
+
+// --- LINTING ---
+
+// Only finished files are linted (pending/failed ones are not exportable yet).
+// Checks the export language against every selected agency, plus the blocklist in all languages.
+export const lintFile = (file: FileItem, settings: AppSettings): ComplianceIssue[] => {
+  if (file.status !== ProcessingStatus.Completed) return [];
+
+  const language = settings.exportLanguage;
+  const content = getLocalizedContent(file.metadata, language);
+  const keywords = splitKeywords(content.keywords);
+  const blockedTerms = getBlockedTerms(file.type, settings);
+  const byKey = new Map<string, ComplianceIssue>();
+
+  settings.exportProfiles.forEach(profileId => {
+    const label = EXPORT_PROFILES.find(p => p.id === profileId)?.label || profileId;
+    const ctx: RuleContext = { metadata: file.metadata, content, keywords, category: file.metadata.category, language, rules: getComplianceRules(profileId), blockedTerms };
+
+    RULES.flatMap(rule => rule(ctx)).forEach(issue => {
+      // Same finding from several agencies => one badge listing them all
+      const key = `${issue.rule}|${issue.badge}`;
+      const existing = byKey.get(key);
+      if (existing) existing.profiles.push(label);
+      else byKey.set(key, { ...issue, profiles: [label] });
+    });
+  });
+
+  // Errors first
+  return Array.from(byKey.values()).sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+export const lintFiles = (files: FileItem[], settings: AppSettings): Record<string, ComplianceIssue[]> => {
+  return Object.fromEntries(files.map(f => [f.id, lintFile(f, settings)]));
+};
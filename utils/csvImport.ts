@@ -0,0 +1,147 @@
+import { CATEGORIES } from "../constants";
+import { ExportProfile, EXPORT_PROFILES, splitKeywords } from "./exportProfiles";
+
+// --- CSV IMPORT ---
+// Reads back CSVs written by downloadCSV (or edited in a spreadsheet) for any known agency layout.
+
+export interface ImportedRow {
+  filename: string;
+  // Missing when the layout has no such column: the file keeps its current value
+  title?: string;
+  keywords?: string;
+  // Candidate CATEGORIES ids, most likely first. Several agency labels cover more than one of
+  // our categories (e.g. Shutterstock "Nature"), so the caller can keep the file's current one.
+  categoryIds?: string[];
+}
+
+export interface CSVImportResult {
+  profile: ExportProfile;
+  rows: ImportedRow[];
+  unknownCategories: string[];
+}
+
+// RFC 4180 style parser (quoted cells, escaped quotes, newlines inside quotes)
+export const parseCSV = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop fully empty lines (trailing newline, spreadsheet padding)
+  return rows.filter(r => r.some(c => c.trim().length > 0));
+};
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase();
+
+// Spreadsheet apps may save with ';' in some locales, so the delimiter is detected, not assumed
+const detectDelimiter = (headerLine: string): ',' | ';' => {
+  const commas = (headerLine.match(/,/g) || []).length;
+  const semicolons = (headerLine.match(/;/g) || []).length;
+  return semicolons > commas ? ';' : ',';
+};
+
+// Profile whose header set overlaps most with the file's header.
+// Missing columns and a different delimiter count against a profile (Adobe vs Freepik share headers).
+const detectProfile = (headers: string[], delimiter: string): ExportProfile | null => {
+  let best: ExportProfile | null = null;
+  let bestScore = 0;
+  EXPORT_PROFILES.forEach(profile => {
+    const matched = profile.columns.filter(c => headers.includes(normalizeHeader(c.header))).length;
+    if (matched === 0) return;
+    const missing = profile.columns.length - matched;
+    const score = matched - missing * 0.5 + (profile.delimiter === delimiter ? 0.5 : 0);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Agency category label (or Adobe numeric id / our own EN/IND name) -> CATEGORIES ids
+const resolveCategory = (value: string, profile: ExportProfile): string[] => {
+  const needle = value.trim().toLowerCase();
+  if (!needle) return [];
+
+  if (CATEGORIES.some(c => c.id === needle)) return [needle];
+
+  const ownMatch = CATEGORIES.filter(c => c.en.toLowerCase() === needle || c.id_lang.toLowerCase() === needle).map(c => c.id);
+  const profileMatch = Object.entries(profile.categoryMap || {})
+    .filter(([, label]) => label.toLowerCase() === needle)
+    .map(([id]) => id);
+
+  return Array.from(new Set([...ownMatch, ...profileMatch]));
+};
+
+export const importCSV = (text: string): CSVImportResult => {
+  const clean = text.replace(/^﻿/, ''); // Excel BOM
+  const firstLine = clean.split(/\r?\n/, 1)[0] || '';
+  const delimiter = detectDelimiter(firstLine);
+  const rows = parseCSV(clean, delimiter);
+  if (rows.length < 2) throw new Error("CSV has no data rows");
+
+  const headers = rows[0].map(normalizeHeader);
+  const profile = detectProfile(headers, delimiter);
+  if (!profile) throw new Error("Unrecognized CSV layout");
+
+  const indexOfRole = (role: string) => {
+    const column = profile.columns.find(c => c.role === role);
+    return column ? headers.indexOf(normalizeHeader(column.header)) : -1;
+  };
+
+  const fileIdx = indexOfRole('filename');
+  const titleIdx = indexOfRole('title');
+  const keywordIdx = indexOfRole('keywords');
+  const categoryIdx = indexOfRole('category');
+  if (fileIdx === -1) throw new Error(`${profile.label} CSV is missing the filename column`);
+
+  const unknownCategories = new Set<string>();
+  const imported = rows.slice(1).map(cells => {
+    const rawCategory = categoryIdx === -1 ? '' : (cells[categoryIdx] || '').trim();
+    const categoryIds = rawCategory ? resolveCategory(rawCategory, profile) : [];
+    if (rawCategory && categoryIds.length === 0) unknownCategories.add(rawCategory);
+
+    return {
+      filename: (cells[fileIdx] || '').trim(),
+      title: titleIdx === -1 ? undefined : (cells[titleIdx] || '').trim(),
+      keywords: keywordIdx === -1 ? undefined : splitKeywords(cells[keywordIdx] || '').join(', '),
+      categoryIds: categoryIds.length > 0 ? categoryIds : undefined,
+    };
+  }).filter(r => r.filename.length > 0);
+
+  return { profile, rows: imported, unknownCategories: Array.from(unknownCategories) };
+};
@@ -0,0 +1,48 @@
+import { FileItem } from "../types";
+import { hammingDistance, histogramSimilarity } from "./imageHash";
+import { clusterFiles } from "./series";
+
+// --- DUPLICATE DETECTION ---
+// Exact duplicates (same bytes) are rejected on import. Near-duplicates (almost the same
+// picture: burst frames, re-exports) are grouped until the user keeps one or marks them
+// as intentional variants, so we don't pay for them twice or get flagged as spam.
+
+// Whole-file SHA-256 up to this size; above it, size + three 4 MB samples (huge videos)
+const FULL_HASH_LIMIT = 256 * 1024 * 1024;
+const SAMPLE_SIZE = 4 * 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const computeContentHash = async (file: File): Promise<string> => {
+  if (file.size <= FULL_HASH_LIMIT) {
+    return toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+  }
+  const middle = Math.floor(file.size / 2 - SAMPLE_SIZE / 2);
+  const parts = [
+    new TextEncoder().encode(`${file.size}:`),
+    new Uint8Array(await file.slice(0, SAMPLE_SIZE).arrayBuffer()),
+    new Uint8Array(await file.slice(middle, middle + SAMPLE_SIZE).arrayBuffer()),
+    new Uint8Array(await file.slice(file.size - SAMPLE_SIZE).arrayBuffer()),
+  ];
+  const joined = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    joined.set(p, offset);
+    offset += p.length;
+  });
+  return `s:${toHex(await crypto.subtle.digest('SHA-256', joined))}`;
+};
+
+// Colour must match too, so flat/uniform images with similar structure don't collide
+const MIN_DUPLICATE_COLOUR_SIMILARITY = 0.85;
+
+// thresholdPercent: 100 = identical fingerprint only, 90 = up to 6 of 64 hash bits may differ
+export const findNearDuplicateGroups = (files: FileItem[], thresholdPercent: number): string[][] => {
+  const maxDistance = Math.floor((1 - thresholdPercent / 100) * 64);
+  const candidates = files.filter(f => f.signature && !f.isVariant);
+  return clusterFiles(candidates, (a, b) =>
+    hammingDistance(a.signature!.dHash, b.signature!.dHash) <= maxDistance &&
+    histogramSimilarity(a.signature!.histogram, b.signature!.histogram) >= MIN_DUPLICATE_COLOUR_SIMILARITY
+  );
+};
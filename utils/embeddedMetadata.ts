@@ -0,0 +1,498 @@
+// Read/Write embedded IPTC + XMP metadata inside JPEG files.
+// We only touch the APP1 (XMP) and APP13 (Photoshop/IPTC) segments.
+// The compressed image data is copied byte-for-byte, so pixels are never re-encoded.
+
+export interface EmbeddedFields {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IRB_IPTC = 0x0404;
+const IRB_IPTC_DIGEST = 0x0425; // Stale digest makes Photoshop ignore the new IPTC block
+
+const NS_RDF = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const NS_DC = 'http://purl.org/dc/elements/1.1/';
+const NS_PHOTOSHOP = 'http://ns.adobe.com/photoshop/1.0/';
+const NS_XML = 'http://www.w3.org/XML/1998/namespace';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// --- BYTE HELPERS ---
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const out = new Uint8Array(total);
+  let pos = 0;
+  parts.forEach(p => { out.set(p, pos); pos += p.length; });
+  return out;
+};
+
+const startsWithAscii = (bytes: Uint8Array, offset: number, text: string): boolean => {
+  if (offset + text.length > bytes.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+// Cut UTF-8 text to a byte limit without splitting a multi-byte character
+const utf8Truncate = (text: string, maxBytes: number): Uint8Array => {
+  let bytes = encoder.encode(text);
+  if (bytes.length <= maxBytes) return bytes;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xC0) === 0x80) end--;
+  return bytes.slice(0, end);
+};
+
+const buildSegment = (marker: number, payload: Uint8Array): Uint8Array => {
+  if (payload.length + 2 > 0xFFFF) {
+    throw new Error("Metadata segment too large for JPEG");
+  }
+  const head = new Uint8Array([0xFF, marker, ((payload.length + 2) >> 8) & 0xFF, (payload.length + 2) & 0xFF]);
+  return concatBytes([head, payload]);
+};
+
+// --- JPEG SEGMENT PARSER ---
+
+interface JpegSegment {
+  marker: number;
+  start: number; // offset of 0xFF
+  end: number; // offset after segment
+  dataStart: number; // offset after length bytes
+}
+
+export const isJpeg = (bytes: Uint8Array): boolean => bytes.length > 3 && bytes[0] === 0xFF && bytes[1] === 0xD8;
+
+// Returns the header segments before the image data (SOS) + offset where image data starts
+const parseJpegHeader = (bytes: Uint8Array): { segments: JpegSegment[]; bodyStart: number } => {
+  if (!isJpeg(bytes)) throw new Error("Not a JPEG file");
+
+  const segments: JpegSegment[] = [];
+  let pos = 2;
+  while (pos < bytes.length - 4) {
+    if (bytes[pos] !== 0xFF) throw new Error("Corrupt JPEG segment structure");
+    const marker = bytes[pos + 1];
+    // Fill bytes
+    if (marker === 0xFF) { pos++; continue; }
+    // Start of Scan: everything from here on is copied untouched
+    if (marker === 0xDA) return { segments, bodyStart: pos };
+
+    const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+    segments.push({ marker, start: pos, end: pos + 2 + length, dataStart: pos + 4 });
+    pos += 2 + length;
+  }
+  return { segments, bodyStart: pos };
+};
+
+const isXmpSegment = (bytes: Uint8Array, seg: JpegSegment) =>
+  seg.marker === 0xE1 && startsWithAscii(bytes, seg.dataStart, XMP_HEADER);
+
+const isExifSegment = (bytes: Uint8Array, seg: JpegSegment) =>
+  seg.marker === 0xE1 && startsWithAscii(bytes, seg.dataStart, 'Exif\0');
+
+const isPhotoshopSegment = (bytes: Uint8Array, seg: JpegSegment) =>
+  seg.marker === 0xED && startsWithAscii(bytes, seg.dataStart, PHOTOSHOP_HEADER);
+
+// --- IPTC (IIM) ---
+
+const iptcDataset = (record: number, dataset: number, value: Uint8Array): Uint8Array => {
+  return concatBytes([new Uint8Array([0x1C, record, dataset, (value.length >> 8) & 0xFF, value.length & 0xFF]), value]);
+};
+
+const buildIptc = (fields: EmbeddedFields): Uint8Array => {
+  const parts: Uint8Array[] = [
+    iptcDataset(1, 90, new Uint8Array([0x1B, 0x25, 0x47])), // Coded Character Set = UTF-8
+    iptcDataset(2, 0, new Uint8Array([0x00, 0x04])), // Record version
+    iptcDataset(2, 5, utf8Truncate(fields.title, 64)), // Object Name
+    iptcDataset(2, 105, utf8Truncate(fields.title, 256)), // Headline
+    iptcDataset(2, 120, utf8Truncate(fields.description, 2000)), // Caption/Abstract
+  ];
+  fields.keywords.forEach(k => parts.push(iptcDataset(2, 25, utf8Truncate(k, 64))));
+  return concatBytes(parts);
+};
+
+// Photoshop Image Resource Block ("8BIM")
+interface IrbBlock {
+  id: number;
+  name: Uint8Array; // Pascal string incl. length byte + padding
+  data: Uint8Array;
+}
+
+const parseIrbBlocks = (bytes: Uint8Array, start: number, end: number): IrbBlock[] => {
+  const blocks: IrbBlock[] = [];
+  let pos = start;
+  while (pos + 12 <= end && startsWithAscii(bytes, pos, '8BIM')) {
+    const id = (bytes[pos + 4] << 8) | bytes[pos + 5];
+    const nameLen = bytes[pos + 6];
+    const namePadded = (nameLen + 1) % 2 === 0 ? nameLen + 1 : nameLen + 2;
+    const name = bytes.slice(pos + 6, pos + 6 + namePadded);
+    const sizePos = pos + 6 + namePadded;
+    const size = ((bytes[sizePos] << 24) | (bytes[sizePos + 1] << 16) | (bytes[sizePos + 2] << 8) | bytes[sizePos + 3]) >>> 0;
+    const data = bytes.slice(sizePos + 4, sizePos + 4 + size);
+    blocks.push({ id, name, data });
+    pos = sizePos + 4 + size + (size % 2);
+  }
+  return blocks;
+};
+
+const serializeIrbBlock = (block: IrbBlock): Uint8Array => {
+  const head = new Uint8Array([0x38, 0x42, 0x49, 0x4D, (block.id >> 8) & 0xFF, block.id & 0xFF]);
+  const size = block.data.length;
+  const sizeBytes = new Uint8Array([(size >>> 24) & 0xFF, (size >>> 16) & 0xFF, (size >>> 8) & 0xFF, size & 0xFF]);
+  const pad = size % 2 ? new Uint8Array([0]) : new Uint8Array(0);
+  return concatBytes([head, block.name, sizeBytes, block.data, pad]);
+};
+
+// --- XMP ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const wrapXmpPacket = (xmpmeta: string) =>
+  `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${xmpmeta}\n<?xpacket end="w"?>`;
+
+const buildFreshXmp = (fields: EmbeddedFields): string => {
+  const keywords = fields.keywords.map(k => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('');
+  return wrapXmpPacket(
+`<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="${NS_RDF}">
+  <rdf:Description rdf:about="" xmlns:dc="${NS_DC}" xmlns:photoshop="${NS_PHOTOSHOP}">
+   <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.title)}</rdf:li></rdf:Alt></dc:title>
+   <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(fields.description)}</rdf:li></rdf:Alt></dc:description>
+   <dc:subject><rdf:Bag>${keywords}</rdf:Bag></dc:subject>
+   <photoshop:Headline>${escapeXml(fields.title)}</photoshop:Headline>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`);
+};
+
+// Merge into an existing XMP packet so other properties (rights, camera data...) survive
+const mergeXmp = (existing: string, fields: EmbeddedFields): string => {
+  const start = existing.indexOf('<x:xmpmeta');
+  const endTag = '</x:xmpmeta>';
+  const end = existing.indexOf(endTag);
+  if (start === -1 || end === -1 || typeof DOMParser === 'undefined') return buildFreshXmp(fields);
+
+  const doc = new DOMParser().parseFromString(existing.slice(start, end + endTag.length), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return buildFreshXmp(fields);
+
+  const descriptions = Array.from(doc.getElementsByTagNameNS(NS_RDF, 'Description'));
+  if (descriptions.length === 0) return buildFreshXmp(fields);
+
+  // Drop old values (element or attribute form) from every Description
+  const replaced: [string, string][] = [[NS_DC, 'title'], [NS_DC, 'description'], [NS_DC, 'subject'], [NS_PHOTOSHOP, 'Headline']];
+  descriptions.forEach(desc => {
+    replaced.forEach(([ns, local]) => {
+      Array.from(desc.getElementsByTagNameNS(ns, local)).forEach(el => el.parentNode?.removeChild(el));
+      desc.removeAttributeNS(ns, local);
+    });
+  });
+
+  const target = descriptions[0];
+  target.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:dc', NS_DC);
+  target.setAttributeNS('http://www.w3.org/2000/xmlns/', 'xmlns:photoshop', NS_PHOTOSHOP);
+
+  const langAlt = (local: string, value: string) => {
+    const prop = doc.createElementNS(NS_DC, `dc:${local}`);
+    const alt = doc.createElementNS(NS_RDF, 'rdf:Alt');
+    const li = doc.createElementNS(NS_RDF, 'rdf:li');
+    li.setAttributeNS(NS_XML, 'xml:lang', 'x-default');
+    li.textContent = value;
+    alt.appendChild(li);
+    prop.appendChild(alt);
+    return prop;
+  };
+
+  const subject = doc.createElementNS(NS_DC, 'dc:subject');
+  const bag = doc.createElementNS(NS_RDF, 'rdf:Bag');
+  fields.keywords.forEach(k => {
+    const li = doc.createElementNS(NS_RDF, 'rdf:li');
+    li.textContent = k;
+    bag.appendChild(li);
+  });
+  subject.appendChild(bag);
+
+  const headline = doc.createElementNS(NS_PHOTOSHOP, 'photoshop:Headline');
+  headline.textContent = fields.title;
+
+  target.appendChild(langAlt('title', fields.title));
+  target.appendChild(langAlt('description', fields.description));
+  target.appendChild(subject);
+  target.appendChild(headline);
+
+  return wrapXmpPacket(new XMLSerializer().serializeToString(doc.documentElement));
+};
+
+// --- PUBLIC API ---
+
+// Returns a NEW JPEG byte array with updated XMP + IPTC. Image data is copied untouched.
+export const writeJpegMetadata = (bytes: Uint8Array, fields: EmbeddedFields): Uint8Array => {
+  const { segments, bodyStart } = parseJpegHeader(bytes);
+
+  let existingXmp = '';
+  const otherIrbBlocks: IrbBlock[] = [];
+  const leading: Uint8Array[] = []; // APP0 (JFIF) + Exif APP1 must stay in front
+  const trailing: Uint8Array[] = [];
+
+  segments.forEach(seg => {
+    if (isXmpSegment(bytes, seg)) {
+      existingXmp = decoder.decode(bytes.slice(seg.dataStart + XMP_HEADER.length, seg.end));
+      return;
+    }
+    if (isPhotoshopSegment(bytes, seg)) {
+      parseIrbBlocks(bytes, seg.dataStart + PHOTOSHOP_HEADER.length, seg.end)
+        .filter(b => b.id !== IRB_IPTC && b.id !== IRB_IPTC_DIGEST)
+        .forEach(b => otherIrbBlocks.push(b));
+      return;
+    }
+    const raw = bytes.slice(seg.start, seg.end);
+    if (trailing.length === 0 && (seg.marker === 0xE0 || isExifSegment(bytes, seg))) {
+      leading.push(raw);
+    } else {
+      trailing.push(raw);
+    }
+  });
+
+  const xmp = existingXmp ? mergeXmp(existingXmp, fields) : buildFreshXmp(fields);
+  const xmpSegment = buildSegment(0xE1, concatBytes([encoder.encode(XMP_HEADER), encoder.encode(xmp)]));
+
+  const irbBlocks = [
+    ...otherIrbBlocks,
+    { id: IRB_IPTC, name: new Uint8Array([0, 0]), data: buildIptc(fields) },
+  ];
+  const photoshopSegment = buildSegment(0xED, concatBytes([
+    encoder.encode(PHOTOSHOP_HEADER),
+    ...irbBlocks.map(serializeIrbBlock),
+  ]));
+
+  return concatBytes([
+    new Uint8Array([0xFF, 0xD8]),
+    ...leading,
+    xmpSegment,
+    photoshopSegment,
+    ...trailing,
+    bytes.subarray(bodyStart),
+  ]);
+};
+
+// --- READERS (Import) ---
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, '&');
+
+// Regex on purpose: XMP from Lightroom/Bridge is regular enough and this also works outside the DOM
+const readXmpProperty = (xmp: string, tag: string): string[] => {
+  const block = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`).exec(xmp);
+  if (!block) {
+    // Attribute form: <rdf:Description photoshop:Headline="...">
+    const attr = new RegExp(`\\s${tag}="([^"]*)"`).exec(xmp);
+    return attr ? [decodeXmlEntities(attr[1])] : [];
+  }
+  const items = Array.from(block[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)).map(m => m[1]);
+  const values = items.length > 0 ? items : [block[1]];
+  return values.map(v => decodeXmlEntities(v).trim()).filter(v => v.length > 0);
+};
+
+const parseXmp = (xmp: string): Partial<EmbeddedFields> => ({
+  title: readXmpProperty(xmp, 'dc:title')[0] || readXmpProperty(xmp, 'photoshop:Headline')[0],
+  description: readXmpProperty(xmp, 'dc:description')[0],
+  keywords: readXmpProperty(xmp, 'dc:subject'),
+});
+
+const parseIptc = (bytes: Uint8Array, start: number, end: number): Partial<EmbeddedFields> => {
+  const result: Partial<EmbeddedFields> = {};
+  const keywords: string[] = [];
+  let pos = start;
+  while (pos + 5 <= end && bytes[pos] === 0x1C) {
+    const record = bytes[pos + 1];
+    const dataset = bytes[pos + 2];
+    const length = (bytes[pos + 3] << 8) | bytes[pos + 4];
+    const value = decoder.decode(bytes.slice(pos + 5, pos + 5 + length)).trim();
+    if (record === 2) {
+      if (dataset === 5 && value) result.title = value;
+      if (dataset === 105 && value && !result.title) result.title = value;
+      if (dataset === 120 && value) result.description = value;
+      if (dataset === 25 && value) keywords.push(value);
+    }
+    pos += 5 + length;
+  }
+  if (keywords.length > 0) result.keywords = keywords;
+  return result;
+};
+
+const parseIptcFromIrb = (bytes: Uint8Array, start: number, end: number): Partial<EmbeddedFields> => {
+  const block = parseIrbBlocks(bytes, start, end).find(b => b.id === IRB_IPTC);
+  return block ? parseIptc(block.data, 0, block.data.length) : {};
+};
+
+// TIFF IFD0 (used for EXIF inside JPEG and for .tif files)
+const TAG_IMAGE_DESCRIPTION = 0x010E;
+const TAG_XMP = 0x02BC;
+const TAG_IPTC = 0x83BB;
+const TAG_XP_TITLE = 0x9C9B;
+const TAG_XP_KEYWORDS = 0x9C9E;
+
+const parseTiff = (bytes: Uint8Array, base: number): Partial<EmbeddedFields> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[base] === 0x49; // 'II'
+  const u16 = (o: number) => view.getUint16(base + o, little);
+  const u32 = (o: number) => view.getUint32(base + o, little);
+
+  let result: Partial<EmbeddedFields> = {};
+  // Truncated or malformed blocks: every offset is checked before it is read
+  if (base + 8 > bytes.length) return result;
+  const ifd = u32(4);
+  if (ifd < 8 || base + ifd + 2 > bytes.length) return result;
+
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (base + entry + 12 > bytes.length) break;
+    const tag = u16(entry);
+    const type = u16(entry + 2);
+    const n = u32(entry + 4);
+    const typeSize = type === 3 ? 2 : type === 4 ? 4 : 1;
+    const size = n * typeSize;
+    const offset = size <= 4 ? entry + 8 : u32(entry + 8);
+    if (base + offset + size > bytes.length) continue;
+    const raw = bytes.slice(base + offset, base + offset + size);
+
+    if (tag === TAG_IMAGE_DESCRIPTION) {
+      const text = decoder.decode(raw).replace(/\0+$/, '').trim();
+      if (text) result.description = result.description || text;
+    } else if (tag === TAG_XP_TITLE || tag === TAG_XP_KEYWORDS) {
+      // Windows XP tags are UCS-2 little endian
+      const text = new TextDecoder('utf-16le').decode(raw).replace(/\0+$/, '').trim();
+      if (!text) continue;
+      if (tag === TAG_XP_TITLE) result.title = result.title || text;
+      else result.keywords = result.keywords || text.split(';').map(k => k.trim()).filter(Boolean);
+    } else if (tag === TAG_XMP) {
+      result = { ...result, ...stripEmpty(parseXmp(decoder.decode(raw))) };
+    } else if (tag === TAG_IPTC) {
+      result = { ...result, ...stripEmpty(parseIptc(raw, 0, raw.length)) };
+    }
+  }
+  return result;
+};
+
+const stripEmpty = (fields: Partial<EmbeddedFields>): Partial<EmbeddedFields> => {
+  const out: Partial<EmbeddedFields> = {};
+  if (fields.title) out.title = fields.title;
+  if (fields.description) out.description = fields.description;
+  if (fields.keywords && fields.keywords.length > 0) out.keywords = fields.keywords;
+  return out;
+};
+
+const readJpeg = (bytes: Uint8Array): Partial<EmbeddedFields> => {
+  let exif: Partial<EmbeddedFields> = {};
+  let iptc: Partial<EmbeddedFields> = {};
+  let xmp: Partial<EmbeddedFields> = {};
+
+  // Header may be cut off (we only read the first chunk of the file)
+  let segments: JpegSegment[] = [];
+  try {
+    segments = parseJpegHeader(bytes).segments;
+  } catch {
+    return {};
+  }
+
+  // A broken segment only loses its own fields, never the ones already read from the others
+  segments.filter(seg => seg.end <= bytes.length).forEach(seg => {
+    try {
+      if (isXmpSegment(bytes, seg)) {
+        xmp = stripEmpty(parseXmp(decoder.decode(bytes.slice(seg.dataStart + XMP_HEADER.length, seg.end))));
+      } else if (isPhotoshopSegment(bytes, seg)) {
+        iptc = stripEmpty(parseIptcFromIrb(bytes, seg.dataStart + PHOTOSHOP_HEADER.length, seg.end));
+      } else if (isExifSegment(bytes, seg)) {
+        exif = stripEmpty(parseTiff(bytes.slice(seg.dataStart + 6, seg.end), 0));
+      }
+    } catch (error) {
+      console.warn("Skipped unreadable metadata segment", error);
+    }
+  });
+
+  // Priority: XMP > IPTC > EXIF (same order Lightroom uses when writing)
+  return { ...exif, ...iptc, ...xmp };
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readPng = async (bytes: Uint8Array): Promise<Partial<EmbeddedFields>> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let result: Partial<EmbeddedFields> = {};
+  let pos = 8;
+
+  while (pos + 12 <= bytes.length) {
+    const length = view.getUint32(pos);
+    const type = decoder.decode(bytes.slice(pos + 4, pos + 8));
+    const dataStart = pos + 8;
+    if (type === 'IEND' || dataStart + length > bytes.length) break;
+    const data = bytes.slice(dataStart, dataStart + length);
+
+    if (type === 'iTXt' || type === 'tEXt') {
+      const keywordEnd = data.indexOf(0);
+      const keyword = decoder.decode(data.slice(0, keywordEnd));
+      let text = '';
+
+      if (type === 'tEXt') {
+        text = new TextDecoder('latin1').decode(data.slice(keywordEnd + 1));
+      } else {
+        // iTXt: keyword\0 compressionFlag compressionMethod lang\0 translatedKeyword\0 text
+        const compressed = data[keywordEnd + 1] === 1;
+        const langEnd = data.indexOf(0, keywordEnd + 3);
+        const translatedEnd = data.indexOf(0, langEnd + 1);
+        const payload = data.slice(translatedEnd + 1);
+        text = decoder.decode(compressed ? await inflate(payload) : payload);
+      }
+
+      if (keyword === 'XML:com.adobe.xmp') {
+        result = { ...result, ...stripEmpty(parseXmp(text)) };
+      } else if (keyword === 'Title' && text.trim()) {
+        result.title = result.title || text.trim();
+      } else if (keyword === 'Description' && text.trim()) {
+        result.description = result.description || text.trim();
+      }
+    }
+    pos = dataStart + length + 4; // + CRC
+  }
+  return result;
+};
+
+// Metadata blocks sit at the start of JPEG/PNG, so we avoid reading 40MP files completely.
+const HEADER_READ_LIMIT = 1024 * 1024;
+
+// Reads EXIF / IPTC / XMP titles & keywords from JPEG, TIFF and PNG files.
+// Returns null when the file carries nothing useful.
+export const readEmbeddedMetadata = async (file: File): Promise<EmbeddedFields | null> => {
+  const head = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  let fields: Partial<EmbeddedFields> = {};
+
+  if (isJpeg(head)) {
+    fields = readJpeg(new Uint8Array(await file.slice(0, HEADER_READ_LIMIT).arrayBuffer()));
+  } else if (startsWithAscii(head, 0, '\x89PNG')) {
+    fields = await readPng(new Uint8Array(await file.slice(0, HEADER_READ_LIMIT).arrayBuffer()));
+  } else if (startsWithAscii(head, 0, 'II*\0') || startsWithAscii(head, 0, 'MM\0*')) {
+    // TIFF IFDs can point anywhere in the file
+    fields = parseTiff(new Uint8Array(await file.arrayBuffer()), 0);
+  }
+
+  const title = (fields.title || fields.description || '').trim();
+  const keywords = (fields.keywords || []).map(k => k.trim()).filter(k => k.length > 0);
+  if (!title && keywords.length === 0) return null;
+
+  return { title, description: (fields.description || title).trim(), keywords };
+};
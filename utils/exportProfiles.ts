@@ -0,0 +1,230 @@
+import { ExportProfileId, FileItem, FileType, Language } from "../types";
+import { CATEGORIES } from "../constants";
+import { getLocalizedContent } from "./locales";
+
+// A single CSV column: header text + how to read the value from a FileItem
+export interface ExportColumn {
+  header: string;
+  // What the column holds, so CSV import can read it back
+  role?: 'filename' | 'title' | 'keywords' | 'category';
+  value: (file: FileItem, profile: ExportProfile, language: Language) => string;
+  // Title/keyword cells are always quoted (Adobe behaviour), others only when needed
+  alwaysQuote?: boolean;
+}
+
+export interface ExportProfile {
+  id: ExportProfileId;
+  label: string;
+  delimiter: ',' | ';';
+  keywordSeparator: string;
+  maxTitleLength: number;
+  maxKeywords: number;
+  // Maps our CATEGORIES id -> agency category label. Missing map = agency has no category column.
+  categoryMap?: Record<string, string>;
+  // Agency wants separate uploads (and CSVs) for photos, footage and vectors
+  splitByType?: boolean;
+  columns: ExportColumn[];
+}
+
+// --- VALUE HELPERS ---
+
+// Cut title at a word boundary so agencies don't reject it for length
+export const truncateTitle = (title: string, maxLength: number): string => {
+  const clean = title.trim();
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:-]+$/, '');
+};
+
+export const splitKeywords = (keywords: string): string[] => {
+  return keywords.split(/[,;\n]+/).map(k => k.trim()).filter(k => k.length > 0);
+};
+
+const exportTitle = (file: FileItem, profile: ExportProfile, language: Language) =>
+  truncateTitle(getLocalizedContent(file.metadata, language).title, profile.maxTitleLength);
+
+const exportDescription = (file: FileItem, _profile: ExportProfile, language: Language) =>
+  getLocalizedContent(file.metadata, language).title.trim();
+
+const exportKeywords = (file: FileItem, profile: ExportProfile, language: Language) =>
+  splitKeywords(getLocalizedContent(file.metadata, language).keywords).slice(0, profile.maxKeywords).join(profile.keywordSeparator);
+
+const exportCategory = (file: FileItem, profile: ExportProfile) =>
+  profile.categoryMap?.[file.metadata.category] || '';
+
+const isIllustration = (file: FileItem) => file.type === FileType.Vector;
+
+// --- AGENCY PROFILES ---
+// CRITICAL: All profiles export the requested locale (English by default), regardless of UI state.
+
+// Our CATEGORIES list IS the Adobe Stock list, so Adobe keeps the English names 1:1
+const ADOBE_CATEGORIES: Record<string, string> = Object.fromEntries(CATEGORIES.map(c => [c.id, c.en]));
+
+const SHUTTERSTOCK_CATEGORIES: Record<string, string> = {
+  '1': 'Animals/Wildlife',
+  '2': 'Buildings/Landmarks',
+  '3': 'Business/Finance',
+  '4': 'Food and drink',
+  '5': 'Nature',
+  '6': 'People',
+  '7': 'Food and drink',
+  '8': 'Backgrounds/Textures',
+  '9': 'Sports/Recreation',
+  '10': 'Industrial',
+  '11': 'Nature',
+  '12': 'People',
+  '13': 'People',
+  '14': 'Nature',
+  '15': 'Religion',
+  '16': 'Science',
+  '17': 'Miscellaneous',
+  '18': 'Sports/Recreation',
+  '19': 'Technology',
+  '20': 'Transportation',
+  '21': 'Parks/Outdoor',
+};
+
+const DREAMSTIME_CATEGORIES: Record<string, string> = {
+  '1': 'Animals',
+  '2': 'Arts & Architecture',
+  '3': 'Business',
+  '4': 'Objects',
+  '5': 'Nature',
+  '6': 'People',
+  '7': 'Objects',
+  '8': 'Illustrations & Clipart',
+  '9': 'Holidays',
+  '10': 'Industries',
+  '11': 'Nature',
+  '12': 'People',
+  '13': 'People',
+  '14': 'Nature',
+  '15': 'Arts & Architecture',
+  '16': 'Technology',
+  '17': 'Editorial',
+  '18': 'People',
+  '19': 'Technology',
+  '20': 'Industries',
+  '21': 'Travel',
+};
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'adobe',
+    label: 'Adobe Stock',
+    delimiter: ',',
+    keywordSeparator: ', ',
+    maxTitleLength: 200,
+    maxKeywords: 49,
+    categoryMap: ADOBE_CATEGORIES,
+    columns: [
+      { header: 'filename', value: f => f.file.name, role: 'filename' },
+      { header: 'title', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+      { header: 'category', value: exportCategory, role: 'category' },
+    ],
+  },
+  {
+    id: 'shutterstock',
+    label: 'Shutterstock',
+    delimiter: ',',
+    keywordSeparator: ',',
+    maxTitleLength: 200,
+    maxKeywords: 50,
+    categoryMap: SHUTTERSTOCK_CATEGORIES,
+    columns: [
+      { header: 'Filename', value: f => f.file.name, role: 'filename' },
+      { header: 'Description', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'Keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+      { header: 'Categories', value: exportCategory, role: 'category' },
+      { header: 'Editorial', value: () => 'no' },
+      { header: 'Mature content', value: () => 'no' },
+      { header: 'illustration', value: f => isIllustration(f) ? 'yes' : 'no' },
+    ],
+  },
+  {
+    id: 'freepik',
+    label: 'Freepik',
+    delimiter: ';',
+    keywordSeparator: ', ',
+    maxTitleLength: 100,
+    maxKeywords: 50,
+    splitByType: true,
+    columns: [
+      { header: 'Filename', value: f => f.file.name, role: 'filename' },
+      { header: 'Title', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'Keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+    ],
+  },
+  {
+    id: 'dreamstime',
+    label: 'Dreamstime',
+    delimiter: ',',
+    keywordSeparator: ',',
+    maxTitleLength: 115,
+    maxKeywords: 80,
+    categoryMap: DREAMSTIME_CATEGORIES,
+    columns: [
+      { header: 'Filename', value: f => f.file.name, role: 'filename' },
+      { header: 'Image Name', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'Description', value: exportDescription, alwaysQuote: true },
+      { header: 'Category 1', value: exportCategory, role: 'category' },
+      { header: 'keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+      { header: 'Free', value: () => '0' },
+      { header: 'Editorial', value: () => '0' },
+    ],
+  },
+  {
+    id: '123rf',
+    label: '123RF',
+    delimiter: ',',
+    keywordSeparator: ',',
+    maxTitleLength: 200,
+    maxKeywords: 50,
+    splitByType: true,
+    columns: [
+      { header: 'oldfilename', value: f => f.file.name, role: 'filename' },
+      { header: '123rf_filename', value: () => '' },
+      { header: 'description', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+      { header: 'country', value: () => '' },
+    ],
+  },
+  {
+    id: 'vecteezy',
+    label: 'Vecteezy',
+    delimiter: ',',
+    keywordSeparator: ',',
+    maxTitleLength: 200,
+    maxKeywords: 50,
+    columns: [
+      { header: 'Filename', value: f => f.file.name, role: 'filename' },
+      { header: 'Title', value: exportTitle, alwaysQuote: true, role: 'title' },
+      { header: 'Description', value: exportDescription, alwaysQuote: true },
+      { header: 'Keywords', value: exportKeywords, alwaysQuote: true, role: 'keywords' },
+      { header: 'License', value: () => 'pro' },
+    ],
+  },
+];
+
+export const getExportProfile = (id: ExportProfileId): ExportProfile => {
+  return EXPORT_PROFILES.find(p => p.id === id) || EXPORT_PROFILES[0];
+};
+
+// --- CSV BUILDING ---
+
+const escapeCell = (value: string, delimiter: string, alwaysQuote?: boolean): string => {
+  const needsQuote = alwaysQuote || value.includes(delimiter) || value.includes('"') || /[\r\n]/.test(value);
+  return needsQuote ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const buildCSV = (files: FileItem[], profile: ExportProfile, language: Language = 'en'): string => {
+  const header = profile.columns.map(c => escapeCell(c.header, profile.delimiter)).join(profile.delimiter);
+  const rows = files.map(f =>
+    profile.columns
+      .map(c => escapeCell(c.value(f, profile, language), profile.delimiter, c.alwaysQuote))
+      .join(profile.delimiter)
+  );
+  return [header, ...rows].join('\n');
+};
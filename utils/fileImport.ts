@@ -0,0 +1,129 @@
+import { FileItem } from "../types";
+
+// --- FILE IMPORT SOURCES ---
+// Files reach processFiles from the file/folder inputs, drag & drop (files or whole folder
+// trees) and clipboard paste. Each one keeps the path it had in the upload
+// ("shoot/day1/cat.jpg"), since dropped files have no webkitRelativePath of their own.
+
+export interface ImportedFile {
+  file: File;
+  relativePath: string;
+}
+
+export interface ImportProgress {
+  label: string; // Current step ("Detecting file types", "Checking duplicates"...)
+  done: number;
+  total: number; // 0 = unknown (folder traversal still counting)
+}
+
+export interface ImportSummary {
+  accepted: number;
+  companions: number; // JPG/PNG previews paired with EPS/AI files (not cards of their own)
+  skippedCompanions: number; // Extra same-name previews not used (cat.png when cat.jpg pairs with cat.eps)
+  wrongType: number;
+  duplicates: number; // Exact duplicates of files already in the batch
+}
+
+// "12 accepted, 3 previews paired, 1 extra preview skipped, 2 wrong type, 1 duplicate"
+export const describeImportSummary = (summary: ImportSummary): string => [
+  `${summary.accepted} accepted`,
+  ...(summary.companions > 0 ? [`${summary.companions} previews paired`] : []),
+  ...(summary.skippedCompanions > 0 ? [`${summary.skippedCompanions} extra ${summary.skippedCompanions === 1 ? 'preview' : 'previews'} skipped`] : []),
+  ...(summary.wrongType > 0 ? [`${summary.wrongType} wrong type`] : []),
+  ...(summary.duplicates > 0 ? [`${summary.duplicates} ${summary.duplicates === 1 ? 'duplicate' : 'duplicates'}`] : []),
+].join(', ');
+
+// <input> files: folder uploads carry their path, single files just their name
+export const fromFileList = (fileList: FileList | File[]): ImportedFile[] =>
+  Array.from(fileList).map(file => ({ file, relativePath: file.webkitRelativePath || file.name }));
+
+// Items from older sessions have no stored path
+export const itemPath = (item: FileItem): string => item.relativePath || item.file.webkitRelativePath || item.file.name;
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+// readEntries() hands out directory contents in chunks (100 in Chrome) until an empty one
+const readAllEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) return entries;
+    entries.push(...chunk);
+  }
+};
+
+const isHidden = (name: string) => name.startsWith('.'); // .DS_Store, ._cat.jpg (macOS resource forks)
+
+const walkEntry = async (entry: FileSystemEntry, out: ImportedFile[], onFound?: (count: number) => void): Promise<void> => {
+  if (isHidden(entry.name)) return;
+  if (entry.isFile) {
+    try {
+      out.push({ file: await readEntryFile(entry as FileSystemFileEntry), relativePath: entry.fullPath.replace(/^\//, '') });
+      onFound?.(out.length);
+    } catch (error) {
+      console.warn("Dropped file could not be read", entry.fullPath, error);
+    }
+    return;
+  }
+  if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      await walkEntry(child, out, onFound);
+    }
+  }
+};
+
+// All files of a drop, folders traversed recursively. The entries must be taken synchronously
+// (the DataTransfer is emptied once the drop handler returns), the walking can be async.
+export const collectDroppedFiles = async (dataTransfer: DataTransfer, onFound?: (count: number) => void): Promise<ImportedFile[]> => {
+  const entries: FileSystemEntry[] = [];
+  const loose: File[] = [];
+  Array.from(dataTransfer.items).forEach(item => {
+    if (item.kind !== 'file') return;
+    const entry = item.webkitGetAsEntry?.();
+    if (entry) {
+      entries.push(entry);
+    } else {
+      // No entry API: plain file, folders can't be read
+      const file = item.getAsFile();
+      if (file) loose.push(file);
+    }
+  });
+
+  const out: ImportedFile[] = fromFileList(loose);
+  for (const entry of entries) {
+    await walkEntry(entry, out, onFound);
+  }
+  return out;
+};
+
+const PASTE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+};
+
+// Pasted files. Screenshots all arrive as "image.png", so nameless clipboard images get a
+// unique timestamped name (exports and duplicate logs need to tell them apart).
+export const collectPastedFiles = (clipboardData: DataTransfer): ImportedFile[] => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '_');
+  const files = Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => !!file);
+
+  return files.map((file, index) => {
+    const extension = PASTE_EXTENSIONS[file.type];
+    if (!extension || !/^image\.\w+$/i.test(file.name)) return { file, relativePath: file.name };
+    const name = `pasted_${stamp}${files.length > 1 ? `_${index + 1}` : ''}.${extension}`;
+    const renamed = new File([file], name, { type: file.type, lastModified: file.lastModified });
+    return { file: renamed, relativePath: name };
+  });
+};
+
+// Drag or clipboard payload holds files (not just text/links), e.g. a screenshot or files from Explorer/Finder
+export const hasFiles = (dataTransfer: DataTransfer | null): boolean =>
+  !!dataTransfer && Array.from(dataTransfer.types).includes('Files');
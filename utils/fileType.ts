@@ -0,0 +1,94 @@
+import { FileType, UploadMode } from "../types";
+
+// --- FILE TYPE DETECTION ---
+// Per-file FileType for mixed uploads ("Auto" mode) and the strict single-type modes.
+// Magic bytes win when they are conclusive (renamed or MIME-less files); otherwise the MIME
+// type, then the extension decide. null = not something we can describe.
+
+export const AUTO_FILE_TYPE = 'Auto';
+
+export const isAutoMode = (mode: UploadMode): mode is typeof AUTO_FILE_TYPE => mode === AUTO_FILE_TYPE;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.tif', '.tiff', '.heic', '.heif', '.avif', '.bmp'];
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm', '.mkv', '.avi', '.mpg', '.mpeg', '.mts', '.m2ts', '.3gp'];
+const VECTOR_EXTENSIONS = ['.svg', '.eps', '.ai', '.pdf'];
+const VECTOR_MIME_TYPES = ['image/svg+xml', 'application/pdf', 'application/postscript', 'application/illustrator', 'image/x-eps'];
+
+const HEADER_BYTES = 64;
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((b, i) => bytes[offset + i] === b);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+// ISO-BMFF brands: HEIF stills vs MP4/MOV video. The same container also carries audio
+// (M4A/M4B), so only known video brands count as video.
+const HEIF_BRANDS = ['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis'];
+const AUDIO_BRANDS = ['M4A ', 'M4B ', 'M4P ', 'F4A ', 'F4B '];
+const VIDEO_BRANDS = [
+  'isom', 'iso2', 'iso4', 'iso5', 'iso6', 'mp41', 'mp42', 'avc1', 'qt  ', 'M4V ', 'M4VH', 'M4VP',
+  '3gp4', '3gp5', '3gp6', '3g2a', '3ge6', '3ge7', '3gg6', 'dash', 'msnv', 'f4v ', 'XAVC',
+];
+
+// Major brand first, then the compatible brands listed in the rest of the ftyp box
+const ftypBrands = (bytes: Uint8Array): string[] => {
+  const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const brands = [ascii(bytes, 8, 12)];
+  for (let offset = 16; offset + 4 <= Math.min(boxSize, bytes.length); offset += 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+  return brands;
+};
+
+export const detectFromBytes = (bytes: Uint8Array): FileType | null => {
+  if (startsWith(bytes, [0xFF, 0xD8, 0xFF])) return FileType.Image;                     // JPEG
+  if (startsWith(bytes, [0x89, 0x50, 0x4E, 0x47])) return FileType.Image;               // PNG
+  if (ascii(bytes, 0, 4) === 'GIF8') return FileType.Image;
+  if (startsWith(bytes, [0x49, 0x49, 0x2A, 0x00]) || startsWith(bytes, [0x4D, 0x4D, 0x00, 0x2A])) return FileType.Image; // TIFF
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 12);
+    if (format === 'WEBP') return FileType.Image;
+    if (format === 'AVI ') return FileType.Video;
+  }
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const [major, ...compatible] = ftypBrands(bytes);
+    if (HEIF_BRANDS.includes(major)) return FileType.Image;
+    if (AUDIO_BRANDS.includes(major) || compatible.some(b => AUDIO_BRANDS.includes(b))) return null; // M4A / M4B audio
+    if (VIDEO_BRANDS.includes(major)) return FileType.Video;                            // MP4 / MOV / M4V / 3GP
+    return null; // Unknown brand: MIME type and extension decide
+  }
+  if (startsWith(bytes, [0x1A, 0x45, 0xDF, 0xA3])) return FileType.Video;               // WebM / MKV
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0xBA])) return FileType.Video;              // MPEG-PS
+  if (ascii(bytes, 0, 5) === '%PDF-') return FileType.Vector;                           // PDF (and PDF-compatible AI)
+  if (ascii(bytes, 0, 4) === '%!PS') return FileType.Vector;                            // EPS / legacy AI
+  if (startsWith(bytes, [0xC5, 0xD0, 0xD3, 0xC6])) return FileType.Vector;              // DOS EPS with preview
+  const text = ascii(bytes, 0, bytes.length).trimStart();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) return FileType.Vector;
+  return null;
+};
+
+export const detectFromName = (file: File): FileType | null => {
+  if (VECTOR_MIME_TYPES.includes(file.type)) return FileType.Vector;
+  if (file.type.startsWith('image/')) return FileType.Image;
+  if (file.type.startsWith('video/')) return FileType.Video;
+  const extension = extensionOf(file.name);
+  if (VECTOR_EXTENSIONS.includes(extension)) return FileType.Vector;
+  if (IMAGE_EXTENSIONS.includes(extension)) return FileType.Image;
+  if (VIDEO_EXTENSIONS.includes(extension)) return FileType.Video;
+  return null;
+};
+
+export const detectFileType = async (file: File): Promise<FileType | null> => {
+  try {
+    const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    return detectFromBytes(bytes) || detectFromName(file);
+  } catch {
+    return detectFromName(file);
+  }
+};
@@ -1,6 +1,9 @@
 
-import { Category, FileItem } from "../types";
+import { ExportProfileId, FileItem, FileType, Language } from "../types";
 import { CATEGORIES } from "../constants";
+import { buildCSV, getExportProfile, splitKeywords } from "./exportProfiles";
+import { isJpeg, writeJpegMetadata } from "./embeddedMetadata";
+import { createZipWriter } from "./zip";
 
 export const generateProjectName = (): string => {
   const now = new Date();
@@ -13,41 +16,16 @@ export const generateProjectName = (): string => {
   return `Project_${hour}.${minute}_${day}-${month}-${year}`;
 };
 
-export const getCategoryName = (id: string, lang: 'ENG' | 'IND'): string => {
+// Indonesian has its own labels; other locales fall back to the English category name
+export const getCategoryName = (id: string, lang: Language): string => {
   const cat = CATEGORIES.find(c => c.id === id);
   if (!cat) return id;
-  return lang === 'ENG' ? cat.en : cat.id_lang;
+  return lang === 'id' ? cat.id_lang : cat.en;
 };
 
-// CSV Export always uses English categories AND English metadata
-export const downloadCSV = (files: FileItem[], customFilename?: string): string => {
-  const header = ['filename', 'title', 'keywords', 'category'];
-  
-  const rows = files.map(f => {
-    // Escape quotes for CSV
-    // CRITICAL: Always use f.metadata.en (ENGLISH) for CSV output, regardless of UI state
-    // This ensures consistency even if the user is currently editing or viewing in Indonesian.
-    const title = `"${f.metadata.en.title.replace(/"/g, '""')}"`;
-    const keywords = `"${f.metadata.en.keywords.replace(/"/g, '""')}"`;
-    const categoryName = getCategoryName(f.metadata.category, 'ENG'); // Always English
-    
-    return [
-      f.file.name,
-      title,
-      keywords,
-      categoryName
-    ].join(',');
-  });
-
-  const csvContent = [header.join(','), ...rows].join('\n');
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+// Trigger a browser download for an in-memory blob
+export const triggerDownload = (blob: Blob, fileName: string) => {
   const url = URL.createObjectURL(blob);
-  
-  // Default to IsaProMe.csv if empty
-  const fileName = customFilename && customFilename.trim() !== '' 
-    ? `${customFilename.trim()}.csv` 
-    : `IsaProMe.csv`;
-  
   const link = document.createElement('a');
   link.setAttribute('href', url);
   link.setAttribute('download', fileName);
@@ -55,61 +33,86 @@ export const downloadCSV = (files: FileItem[], customFilename?: string): string
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
-  
-  return fileName;
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// CSV Export always uses the agency's (English) categories; metadata is English unless another locale is requested
+// One file per selected agency profile. Returns the written filenames.
+export const downloadCSV = (
+  files: FileItem[],
+  customFilename?: string,
+  profileIds: ExportProfileId[] = ['adobe'],
+  language: Language = 'en'
+): string[] => {
+  // Default to IsaProMe.csv if empty
+  const baseName = customFilename && customFilename.trim() !== '' ? customFilename.trim() : 'IsaProMe';
+  const ids = profileIds.length > 0 ? profileIds : ['adobe' as ExportProfileId];
+
+  const types = Object.values(FileType).filter(type => files.some(f => f.type === type));
+
+  return ids.flatMap(id => {
+    const profile = getExportProfile(id);
+    // Single profile keeps the plain name, several profiles get an agency suffix
+    const profileName = ids.length > 1 ? `${baseName}_${profile.id}` : baseName;
+    // Mixed batch for an agency that takes each type separately: one CSV per type
+    const parts = profile.splitByType && types.length > 1
+      ? types.map(type => ({ name: `${profileName}_${type.toLowerCase()}`, files: files.filter(f => f.type === type) }))
+      : [{ name: profileName, files }];
+
+    return parts.map(part => {
+      const fileName = `${part.name}.csv`;
+      triggerDownload(new Blob([buildCSV(part.files, profile, language)], { type: 'text/csv;charset=utf-8;' }), fileName);
+      return fileName;
+    });
+  });
 };
 
-// Helper to extract 3 frames from a video file
-export const extractVideoFrames = async (videoFile: File): Promise<string[]> => {
-  return new Promise((resolve, reject) => {
-    const video = document.createElement('video');
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    const frames: string[] = [];
-    const timestamps = [0.1, 0.5, 0.9]; // 10%, 50%, 90%
-    let currentStep = 0;
+// Embeds English title/keywords as XMP + IPTC into each JPEG and bundles them as a ZIP.
+// Non-JPEG files are skipped (returned in `skipped`) because we never re-encode pixels.
+export const downloadTaggedZip = async (
+  files: FileItem[],
+  customFilename?: string
+): Promise<{ fileName: string; written: number; skipped: string[] }> => {
+  // Each tagged file goes straight into the archive Blob, so only one file is in memory at a time
+  const zip = createZipWriter();
+  let written = 0;
+  const skipped: string[] = [];
+  const usedNames = new Set<string>();
 
-    // Use a temporary URL
-    const url = URL.createObjectURL(videoFile);
-    video.src = url;
-    video.muted = true;
-    video.playsInline = true;
-    video.crossOrigin = "anonymous";
+  for (const f of files) {
+    const bytes = new Uint8Array(await f.file.arrayBuffer());
+    if (!isJpeg(bytes)) {
+      skipped.push(f.file.name);
+      continue;
+    }
 
-    // When metadata loads, we know duration
-    video.onloadedmetadata = () => {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      // Start seeking for the first frame
-      video.currentTime = video.duration * timestamps[0];
-    };
+    try {
+      const tagged = writeJpegMetadata(bytes, {
+        title: f.metadata.en.title,
+        description: f.metadata.en.title,
+        keywords: splitKeywords(f.metadata.en.keywords),
+      });
 
-    video.onseeked = () => {
-      if (!ctx) {
-        URL.revokeObjectURL(url);
-        reject(new Error("Canvas context failed"));
-        return;
+      // Avoid overwriting entries when two folders contain the same filename
+      let name = f.file.name;
+      for (let n = 2; usedNames.has(name); n++) {
+        name = f.file.name.replace(/(\.[^.]*)?$/, `_${n}$1`);
       }
+      usedNames.add(name);
 
-      // Draw current frame
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      // Get base64 (jpeg for compression)
-      frames.push(canvas.toDataURL('image/jpeg', 0.7).split(',')[1]);
+      zip.add({ name, data: tagged, lastModified: f.file.lastModified });
+      written++;
+    } catch (e) {
+      console.error("Embedding failed", f.file.name, e);
+      skipped.push(f.file.name);
+    }
+  }
 
-      currentStep++;
-      if (currentStep < timestamps.length) {
-        // Seek next
-        video.currentTime = video.duration * timestamps[currentStep];
-      } else {
-        // Done
-        URL.revokeObjectURL(url);
-        resolve(frames);
-      }
-    };
+  const baseName = customFilename && customFilename.trim() !== '' ? customFilename.trim() : 'IsaProMe';
+  const fileName = `${baseName}_tagged.zip`;
+  if (written > 0) {
+    triggerDownload(zip.finish(), fileName);
+  }
 
-    video.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error("Error loading video"));
-    };
-  });
+  return { fileName, written, skipped };
 };
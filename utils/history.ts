@@ -0,0 +1,91 @@
+import { FileMetadata, Language, LocalizedContent } from "../types";
+import { getLanguageInfo, SOURCE_LANGUAGE } from "./locales";
+
+// --- METADATA HISTORY (UNDO / REDO) ---
+// Every metadata change is recorded as before/after snapshots per file.
+// Changes made together (one bulk edit, one CSV import) share a batch id so the
+// global undo takes them back in one step; per-file undo takes back one entry.
+
+export type HistorySource = 'user' | 'ai' | 'translation';
+
+export interface HistoryEntry {
+  id: string;          // Unique per file per batch (safe to record twice)
+  batchId: string;
+  fileId: string;
+  time: number;
+  source: HistorySource;
+  label: string;       // "Edited keywords (ENG)", "Generated", "Synced IND"...
+  changes: string;     // Which fields changed ("title ENG, keywords IND")
+  before: FileMetadata;
+  after: FileMetadata;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const MAX_HISTORY = 500;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const sameContent = (a?: LocalizedContent, b?: LocalizedContent) =>
+  (a?.title || '') === (b?.title || '') && (a?.keywords || '') === (b?.keywords || '');
+
+// Field list of what differs between two snapshots
+export const describeMetadataChange = (before: FileMetadata, after: FileMetadata): string => {
+  const parts: string[] = [];
+  const codes = Array.from(new Set([SOURCE_LANGUAGE, ...Object.keys(before.translations), ...Object.keys(after.translations)]));
+  codes.forEach(code => {
+    const a = code === SOURCE_LANGUAGE ? before.en : before.translations[code];
+    const b = code === SOURCE_LANGUAGE ? after.en : after.translations[code];
+    const label = getLanguageInfo(code as Language).label;
+    if ((a?.title || '') !== (b?.title || '')) parts.push(`title ${label}`);
+    if ((a?.keywords || '') !== (b?.keywords || '')) parts.push(`keywords ${label}`);
+  });
+  if (before.category !== after.category) parts.push('category');
+  return parts.join(', ');
+};
+
+export const isSameMetadata = (a: FileMetadata, b: FileMetadata): boolean => {
+  if (a.category !== b.category || !sameContent(a.en, b.en)) return false;
+  const codes = new Set([...Object.keys(a.translations), ...Object.keys(b.translations)]);
+  return Array.from(codes).every(code => sameContent(a.translations[code], b.translations[code]));
+};
+
+// New change: drop redo entries of that file only (other files keep theirs)
+export const recordHistory = (state: HistoryState, entry: HistoryEntry): HistoryState => {
+  if (state.past.some(e => e.id === entry.id)) return state;
+  return {
+    past: [...state.past, entry].slice(-MAX_HISTORY),
+    future: state.future.filter(e => e.fileId !== entry.fileId),
+  };
+};
+
+// Entries to take back: the last batch (global) or the file's last entry
+export const takeUndo = (state: HistoryState, fileId?: string): { state: HistoryState; entries: HistoryEntry[] } => {
+  const last = fileId ? [...state.past].reverse().find(e => e.fileId === fileId) : state.past[state.past.length - 1];
+  if (!last) return { state, entries: [] };
+  const entries = fileId ? [last] : state.past.filter(e => e.batchId === last.batchId);
+  const ids = new Set(entries.map(e => e.id));
+  return {
+    state: { past: state.past.filter(e => !ids.has(e.id)), future: [...state.future, ...entries] },
+    entries,
+  };
+};
+
+export const takeRedo = (state: HistoryState, fileId?: string): { state: HistoryState; entries: HistoryEntry[] } => {
+  const last = fileId ? [...state.future].reverse().find(e => e.fileId === fileId) : state.future[state.future.length - 1];
+  if (!last) return { state, entries: [] };
+  const entries = fileId ? [last] : state.future.filter(e => e.batchId === last.batchId);
+  const ids = new Set(entries.map(e => e.id));
+  return {
+    state: { past: [...state.past, ...entries], future: state.future.filter(e => !ids.has(e.id)) },
+    entries,
+  };
+};
+
+export const forgetFiles = (state: HistoryState, fileIds: string[]): HistoryState => {
+  const ids = new Set(fileIds);
+  return { past: state.past.filter(e => !ids.has(e.fileId)), future: state.future.filter(e => !ids.has(e.fileId)) };
+};
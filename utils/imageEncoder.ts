@@ -0,0 +1,104 @@
+// --- JPEG ENCODING ---
+// Resize + white background + JPEG, shared by the media worker (OffscreenCanvas) and the
+// main-thread fallback for browsers without OffscreenCanvas (plain DOM canvas).
+// Tiny raw RGBA samples (image signatures) are drawn the same way.
+
+export interface EncodeOptions {
+  maxSize: number;     // Longest side in px (never upscaled)
+  quality: number;     // JPEG quality 0..1
+  background?: string; // Fill under transparency (SVG/PNG); omitted = draw as-is
+}
+
+export interface SampleSize {
+  width: number;
+  height: number;
+}
+
+export interface EncodedImage {
+  data: string;        // Base64 JPEG (no data: prefix)
+  width: number;       // Source dimensions, before resizing
+  height: number;
+}
+
+// btoa needs a binary string; chunked so 2000px JPEGs don't blow the argument limit
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+export const fitSize = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+const draw = (
+  ctx: OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  background?: string
+) => {
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+};
+
+const createContext = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height).getContext('2d');
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext('2d');
+};
+
+// RGBA pixels of the picture squeezed to each size (aspect ignored), white under transparency
+// so SVG/PNG sample like they look
+export const samplePixels = (source: ImageBitmap, sizes: SampleSize[]): Uint8ClampedArray[] =>
+  sizes.map(({ width, height }) => {
+    const ctx = createContext(width, height);
+    if (!ctx) throw new Error("Canvas context failed");
+    draw(ctx, source, width, height, '#FFFFFF');
+    return ctx.getImageData(0, 0, width, height).data;
+  });
+
+export const encodeJpeg = async (source: ImageBitmap, options: EncodeOptions): Promise<EncodedImage> => {
+  const { width, height } = fitSize(source.width, source.height, options.maxSize);
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas context failed");
+    draw(ctx, source, width, height, options.background);
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: options.quality });
+    return { data: bytesToBase64(new Uint8Array(await blob.arrayBuffer())), width: source.width, height: source.height };
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  draw(ctx, source, width, height, options.background);
+  return { data: canvas.toDataURL('image/jpeg', options.quality).split(',')[1], width: source.width, height: source.height };
+};
+
+// --- TASKS ---
+// What the media worker (or its main-thread fallback) is asked to do with a decoded picture
+
+export type MediaTask =
+  | { kind: 'encode'; options: EncodeOptions }
+  | { kind: 'sample'; sizes: SampleSize[] };
+
+export type MediaOutput = EncodedImage | Uint8ClampedArray[];
+
+export const runMediaTask = async (bitmap: ImageBitmap, task: MediaTask): Promise<MediaOutput> =>
+  task.kind === 'encode' ? encodeJpeg(bitmap, task.options) : samplePixels(bitmap, task.sizes);
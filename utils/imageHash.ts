@@ -0,0 +1,86 @@
+import { FileItem, FileType, ImageSignature } from "../types";
+import type { SampleSize } from "./imageEncoder";
+
+// --- IMAGE SIGNATURES ---
+// Small visual fingerprints computed locally (no AI): a 64-bit difference hash (dHash)
+// for structure and a coarse RGB histogram for colour. Used to group series.
+// The pixel samples are drawn by the media pool (services/mediaPool computeImageSignature).
+
+const HASH_WIDTH = 9;   // 9x8 grayscale => 8x8 horizontal gradients = 64 bits
+const HASH_HEIGHT = 8;
+const HIST_SIZE = 32;   // Histogram sample resolution
+const HIST_BINS = 4;    // Per channel => 64 bins
+
+// Sizes the picture is sampled at: [dHash, histogram]
+export const SIGNATURE_SAMPLES: SampleSize[] = [
+  { width: HASH_WIDTH, height: HASH_HEIGHT },
+  { width: HIST_SIZE, height: HIST_SIZE },
+];
+
+const computeDHash = (pixels: Uint8ClampedArray): string => {
+  const gray: number[] = [];
+  for (let i = 0; i < pixels.length; i += 4) {
+    gray.push(pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114);
+  }
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = gray[y * HASH_WIDTH + x];
+      const right = gray[y * HASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const computeHistogram = (pixels: Uint8ClampedArray): number[] => {
+  const bins = new Array(HIST_BINS * HIST_BINS * HIST_BINS).fill(0);
+  const step = 256 / HIST_BINS;
+  const total = pixels.length / 4;
+  for (let i = 0; i < pixels.length; i += 4) {
+    const r = Math.floor(pixels[i] / step);
+    const g = Math.floor(pixels[i + 1] / step);
+    const b = Math.floor(pixels[i + 2] / step);
+    bins[(r * HIST_BINS + g) * HIST_BINS + b]++;
+  }
+  // Rounded so stored sessions stay small
+  return bins.map(count => Math.round((count / total) * 1000) / 1000);
+};
+
+export const signatureFromSamples = (hashPixels: Uint8ClampedArray, histogramPixels: Uint8ClampedArray): ImageSignature => ({
+  dHash: computeDHash(hashPixels),
+  histogram: computeHistogram(histogramPixels),
+});
+
+// Something the browser can draw: the generated/imported thumbnail (small data URL), or the
+// file itself for images and SVG. EPS/AI/PDF and unprocessed videos have no signature (yet).
+export const getSignatureSource = (item: FileItem): string | File | null => {
+  if (item.thumbnail) return item.thumbnail;
+  if (item.type === FileType.Image) return item.file;
+  if (item.type === FileType.Vector && item.file.type === 'image/svg+xml') return item.file;
+  return null;
+};
+
+// --- COMPARISON ---
+
+const POPCOUNT = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+// Differing bits between two dHashes (0 = identical structure, 64 = opposite)
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    distance += POPCOUNT[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+};
+
+// Histogram intersection: 1 = same colour distribution, 0 = nothing in common
+export const histogramSimilarity = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += Math.min(a[i], b[i]);
+  }
+  return Math.min(1, sum);
+};
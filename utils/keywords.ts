@@ -0,0 +1,100 @@
+import { Language } from "../types";
+import { SOURCE_LANGUAGE } from "./locales";
+import { findBlockedTerms } from "./blocklist";
+
+// --- KEYWORD POST-PROCESSING ---
+// Deterministic cleanup applied to every generated result and every manual edit.
+// The prompt asks for an exact count, but models still return duplicates, plurals,
+// mixed case and "38 of 40": this makes the stored list predictable.
+
+// Generic filler agencies reject or ignore, dropped from AI output only (exact keyword match;
+// brands, specs and file-type negatives are matched inside phrases by the blocklist)
+export const FILLER_KEYWORDS = [
+  'stock', 'stock photo', 'stock image', 'royalty free', 'photo', 'image', 'picture', 'jpg', 'jpeg',
+];
+
+export interface KeywordProcessingOptions {
+  target: number;         // Exact count wanted (0 = no limit; manual edits keep the overflow and flag it)
+  language?: Language;    // Plural/singular merging only applies to English
+  banned?: string[];      // Dropped when the whole keyword matches
+  blocked?: string[];     // Blocklist terms: dropped when the keyword contains one
+}
+
+export interface KeywordProcessingResult {
+  keywords: string[];
+  missing: number;        // How many are needed to reach the target
+}
+
+// Trim, lowercase, collapse inner whitespace and strip stray quotes/punctuation
+export const normalizeKeyword = (keyword: string): string => {
+  return keyword
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'“”‘’.#*-]+|[\s"'“”‘’.!?:]+$/g, '')
+    .trim();
+};
+
+// Words ending in "s" that are not plurals of another keyword ("news" is not "new")
+const NOT_PLURAL = new Set([
+  'news', 'series', 'species', 'means', 'glasses', 'shorts', 'jeans', 'pants', 'trousers', 'clothes',
+  'scissors', 'physics', 'economics', 'politics', 'mathematics', 'athletics', 'gymnastics', 'aerobics',
+  'electronics', 'diabetes', 'measles', 'headquarters', 'arms', 'goods', 'savings', 'thanks',
+]);
+
+// Crude English singular form, used only as a comparison key (the first spelling wins)
+const singularize = (word: string): string => {
+  if (word.length <= 3 || NOT_PLURAL.has(word)) return word;
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(sses|ches|shes|xes|zes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+const dedupeKey = (keyword: string, language: Language): string => {
+  const key = keyword.replace(/-/g, ' ');
+  return language === SOURCE_LANGUAGE ? key.split(' ').map(singularize).join(' ') : key;
+};
+
+export const processKeywords = (raw: string | string[], options: KeywordProcessingOptions): KeywordProcessingResult => {
+  const language = options.language || SOURCE_LANGUAGE;
+  const banned = new Set((options.banned || []).map(b => dedupeKey(normalizeKeyword(b), language)));
+  const list = Array.isArray(raw) ? raw : raw.split(/[,;\n]+/);
+
+  const seen = new Set<string>();
+  const keywords: string[] = [];
+  for (const item of list) {
+    const keyword = normalizeKeyword(item);
+    if (!keyword) continue;
+    const key = dedupeKey(keyword, language);
+    if (seen.has(key) || banned.has(key)) continue;
+    if (options.blocked && findBlockedTerms(keyword, options.blocked).length > 0) continue;
+    seen.add(key);
+    keywords.push(keyword);
+  }
+
+  // Input order is relevance order: trimming from the tail keeps the first 10 intact
+  const capped = options.target > 0 ? keywords.slice(0, options.target) : keywords;
+  return {
+    keywords: capped,
+    missing: options.target > 0 ? Math.max(0, options.target - capped.length) : 0,
+  };
+};
+
+// Keywords that repeat an earlier one (same normalized/singular form), in list order
+export const findDuplicateKeywords = (keywords: string[], language: Language = SOURCE_LANGUAGE): string[] => {
+  const seen = new Set<string>();
+  return keywords.filter(item => {
+    const key = dedupeKey(normalizeKeyword(item), language);
+    if (!key) return false;
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+};
+
+export const joinKeywords = (keywords: string[]): string => keywords.join(', ');
+
+// Convenience for places that only store the comma-separated string (manual edits, sync)
+export const cleanKeywordString = (raw: string, options: KeywordProcessingOptions): string => {
+  return joinKeywords(processKeywords(raw, options).keywords);
+};
@@ -0,0 +1,45 @@
+import { FileMetadata, Language, LanguageInfo, LocalizedContent } from "../types";
+import { SUPPORTED_LANGUAGES } from "../constants";
+
+export const SOURCE_LANGUAGE: Language = 'en';
+
+const EMPTY_CONTENT: LocalizedContent = { title: '', keywords: '' };
+
+export const getLanguageInfo = (code: Language): LanguageInfo => {
+  return SUPPORTED_LANGUAGES.find(l => l.code === code) || { code, label: code.toUpperCase(), name: code };
+};
+
+// English first, then the configured targets (no duplicates)
+export const getActiveLanguages = (targetLanguages: Language[]): Language[] => {
+  return [SOURCE_LANGUAGE, ...targetLanguages.filter(l => l !== SOURCE_LANGUAGE)];
+};
+
+export const getLocalizedContent = (metadata: FileMetadata, code: Language): LocalizedContent => {
+  if (code === SOURCE_LANGUAGE) return metadata.en;
+  return metadata.translations[code] || EMPTY_CONTENT;
+};
+
+export const setLocalizedContent = (metadata: FileMetadata, code: Language, content: LocalizedContent): FileMetadata => {
+  if (code === SOURCE_LANGUAGE) return { ...metadata, en: content };
+  return { ...metadata, translations: { ...metadata.translations, [code]: content } };
+};
+
+// Old sessions/projects stored the UI labels ('ENG' / 'IND')
+export const normalizeLanguage = (code: string): Language => {
+  if (code === 'ENG') return 'en';
+  if (code === 'IND') return 'id';
+  return code;
+};
+
+// Migrate stored metadata from the old fixed { en, ind } shape
+export const normalizeMetadata = (raw: any): FileMetadata => {
+  const translations: Record<string, LocalizedContent> = { ...(raw?.translations || {}) };
+  if (raw?.ind && !translations.id) {
+    translations.id = { title: raw.ind.title || '', keywords: raw.ind.keywords || '' };
+  }
+  return {
+    en: { title: raw?.en?.title || '', keywords: raw?.en?.keywords || '' },
+    translations,
+    category: raw?.category || '',
+  };
+};
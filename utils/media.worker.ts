@@ -0,0 +1,36 @@
+import { MediaOutput, MediaTask, runMediaTask } from "./imageEncoder";
+
+// --- MEDIA WORKER ---
+// Decodes (Blob) or takes over (ImageBitmap) a picture, resizes and JPEG-encodes it (or draws
+// tiny pixel samples of it) off the main thread. Only the small result goes back.
+// Spawned by services/mediaPool.ts.
+
+export interface MediaJob {
+  id: number;
+  source: Blob | ImageBitmap;
+  task: MediaTask;
+}
+
+export type MediaJobResult =
+  | { id: number; result: MediaOutput }
+  | { id: number; error: string };
+
+// Typed locally: the project compiles against the DOM lib, not the WebWorker one
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<MediaJob>) => void) | null;
+  postMessage: (message: MediaJobResult) => void;
+};
+
+scope.onmessage = async (event) => {
+  const { id, source, task } = event.data;
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+    scope.postMessage({ id, result: await runMediaTask(bitmap, task) });
+  } catch (error) {
+    scope.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    // Frees the decoded pixels right away (40MP = ~160MB) instead of waiting for GC
+    bitmap?.close();
+  }
+};
@@ -0,0 +1,249 @@
+import { AIProviderId, AppSettings, ExportProfileId, FileItem, FileMetadata, FileType, LocalizedContent, ProcessingStatus } from "../types";
+import { EXPORT_PROFILES } from "./exportProfiles";
+
+// --- PROJECT FILES ---
+// A project is a JSON manifest (no file bytes). Files are re-linked later by re-selecting the folder.
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.isaprome.json';
+
+export interface ProjectFileEntry {
+  name: string;
+  relativePath?: string;
+  size: number;
+  lastModified: number;
+  type: FileType;
+  status: ProcessingStatus;
+  metadata: FileMetadata;
+  error?: string;
+  thumbnail?: string;
+}
+
+// Device-level choices (whether API keys are remembered in this browser) never travel with a project
+export type ProjectSettings = Partial<Omit<AppSettings, 'persistApiKeys'>>;
+
+export interface ProjectManifest {
+  app: 'IsaProMe';
+  version: number;
+  name: string;
+  savedAt: string;
+  settings: ProjectSettings; // Merged over the defaults when re-linked (older projects lack newer settings)
+  files: ProjectFileEntry[];
+}
+
+export interface ParsedProject {
+  manifest: ProjectManifest;
+  droppedSettings: string[]; // Settings with an unusable value, left at their defaults
+}
+
+export const buildProjectManifest = (
+  name: string,
+  files: FileItem[],
+  settings: AppSettings,
+  thumbnails?: Map<string, string>
+): ProjectManifest => {
+  const { persistApiKeys, ...projectSettings } = settings;
+  return {
+    app: 'IsaProMe',
+    version: PROJECT_VERSION,
+    name,
+    savedAt: new Date().toISOString(),
+    settings: projectSettings,
+    files: files.map(f => ({
+      name: f.file.name,
+      relativePath: f.relativePath && f.relativePath !== f.file.name ? f.relativePath : undefined,
+      size: f.file.size,
+      lastModified: f.file.lastModified,
+      type: f.type,
+      // In-flight work can't be resumed from a file: it goes back to the queue
+      status: f.status === ProcessingStatus.Processing ? ProcessingStatus.Pending : f.status,
+      metadata: f.metadata,
+      error: f.error,
+      thumbnail: thumbnails?.get(f.id),
+    })),
+  };
+};
+
+// --- VALIDATION ---
+// Manifests come from disk and may be hand-edited, truncated or from another app version:
+// every field the app reads is checked, and the error names the entry and the field.
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const FILE_TYPES = Object.values(FileType) as string[];
+const STATUSES = Object.values(ProcessingStatus) as string[];
+
+const parseContent = (value: unknown, where: string): LocalizedContent => {
+  if (!isObject(value) || typeof value.title !== 'string' || typeof value.keywords !== 'string') {
+    throw new Error(`${where}: expected a title and keywords (text)`);
+  }
+  return { title: value.title, keywords: value.keywords };
+};
+
+const parseMetadata = (value: unknown, where: string): FileMetadata => {
+  if (!isObject(value)) throw new Error(`${where}: metadata is missing`);
+  if (value.translations !== undefined && !isObject(value.translations)) {
+    throw new Error(`${where}: metadata.translations must be an object`);
+  }
+  if (value.category !== undefined && typeof value.category !== 'string') {
+    throw new Error(`${where}: metadata.category must be text`);
+  }
+  const translations: Record<string, LocalizedContent> = {};
+  Object.entries(value.translations || {}).forEach(([code, content]) => {
+    translations[code] = parseContent(content, `${where}, translation "${code}"`);
+  });
+  return {
+    en: parseContent(value.en, `${where}, English metadata`),
+    translations,
+    category: value.category || '',
+  };
+};
+
+const parseFileEntry = (value: unknown, index: number): ProjectFileEntry => {
+  if (!isObject(value)) throw new Error(`File #${index + 1}: not an object`);
+  const where = `File #${index + 1}${typeof value.name === 'string' ? ` (${value.name})` : ''}`;
+  if (typeof value.name !== 'string' || !value.name) throw new Error(`${where}: name is missing`);
+  if (typeof value.size !== 'number' || typeof value.lastModified !== 'number') {
+    throw new Error(`${where}: size and lastModified must be numbers`);
+  }
+  if (typeof value.type !== 'string' || !FILE_TYPES.includes(value.type)) {
+    throw new Error(`${where}: unknown file type "${String(value.type)}"`);
+  }
+  if (typeof value.status !== 'string' || !STATUSES.includes(value.status)) {
+    throw new Error(`${where}: unknown status "${String(value.status)}"`);
+  }
+  for (const key of ['relativePath', 'error', 'thumbnail'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') throw new Error(`${where}: ${key} must be text`);
+  }
+  return {
+    name: value.name,
+    relativePath: value.relativePath as string | undefined,
+    size: value.size,
+    lastModified: value.lastModified,
+    type: value.type as FileType,
+    status: value.status as ProcessingStatus,
+    metadata: parseMetadata(value.metadata, where),
+    error: value.error as string | undefined,
+    thumbnail: value.thumbnail as string | undefined,
+  };
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isStringList = (value: unknown) => Array.isArray(value) && value.every(isString);
+const oneOf = (options: readonly string[]) => (value: unknown) => isString(value) && options.includes(value);
+
+const PROFILE_IDS: ExportProfileId[] = EXPORT_PROFILES.map(p => p.id);
+const AI_PROVIDER_IDS: AIProviderId[] = ['gemini', 'openai', 'mock'];
+
+// One check per setting the app reads (the Record makes a new setting fail to compile until it has one)
+const SETTING_CHECKS: Record<keyof ProjectSettings, (value: unknown) => boolean> = {
+  customTitle: isString,
+  customKeyword: isString,
+  slideTitle: isNumber,
+  slideKeyword: isNumber,
+  selectedFileType: oneOf([...FILE_TYPES, 'Auto']),
+  csvFilename: isString,
+  exportProfiles: value => Array.isArray(value) && value.every(oneOf(PROFILE_IDS)),
+  targetLanguages: isStringList,
+  exportLanguage: isString,
+  complianceMode: oneOf(['warn', 'block']),
+  blocklistTerms: isStringList,
+  blocklistDisabled: isStringList,
+  blocklistAction: oneOf(['remove', 'flag']),
+  nearDuplicateThreshold: isNumber,
+  videoFrameCount: isNumber,
+  videoSamplingMode: oneOf(['even', 'scene']),
+  videoMinDuration: isNumber,
+  videoMinResolution: isNumber,
+  aiProvider: oneOf(AI_PROVIDER_IDS),
+  aiModel: isString,
+  aiBaseUrl: isString,
+  promptPresets: value => Array.isArray(value) && value.every(p => isObject(p) && isString(p.id) && isString(p.name) && isString(p.template)),
+  promptPresetByType: value => isObject(value) && FILE_TYPES.every(type => isString(value[type])),
+};
+
+// Known settings with a usable value are kept; bad ones are dropped (named, so the UI can say so).
+// Unknown keys (newer app versions, persistApiKeys) are ignored.
+const parseSettings = (value: Json): { settings: ProjectSettings; dropped: string[] } => {
+  const settings: Json = {};
+  const dropped: string[] = [];
+  (Object.keys(SETTING_CHECKS) as (keyof ProjectSettings)[]).forEach(key => {
+    if (value[key] === undefined) return;
+    if (SETTING_CHECKS[key](value[key])) settings[key] = value[key];
+    else dropped.push(key);
+  });
+  return { settings: settings as ProjectSettings, dropped };
+};
+
+export const parseProjectManifest = (text: string): ParsedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Project file is not valid JSON");
+  }
+  if (!isObject(data) || data.app !== 'IsaProMe' || !Array.isArray(data.files)) {
+    throw new Error("Not an IsaProMe project file");
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error(`Invalid project version: ${String(data.version)}`);
+  }
+  if (data.version > PROJECT_VERSION) {
+    throw new Error(`Project version ${data.version} was saved by a newer IsaProMe (this one reads up to ${PROJECT_VERSION})`);
+  }
+  if (data.settings !== undefined && !isObject(data.settings)) {
+    throw new Error("Project settings must be an object");
+  }
+  const { settings, dropped } = parseSettings(data.settings || {});
+  return {
+    manifest: {
+      app: 'IsaProMe',
+      version: data.version,
+      name: typeof data.name === 'string' && data.name.trim() ? data.name : 'Project',
+      savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+      settings,
+      files: data.files.map(parseFileEntry),
+    },
+    droppedSettings: dropped,
+  };
+};
+
+// Path relative to the selected folder (drops the top folder name, which may differ on another PC)
+const innerPath = (path?: string) => (path ? path.split('/').slice(1).join('/') : '');
+
+// Match manifest entries to re-selected files.
+// Priority: same relative path > same name + size > same name.
+export const matchProjectFiles = (
+  manifest: ProjectManifest,
+  selected: File[]
+): { matched: { entry: ProjectFileEntry; file: File }[]; missing: ProjectFileEntry[] } => {
+  const available = [...selected];
+  const matched: { entry: ProjectFileEntry; file: File }[] = [];
+  const missing: ProjectFileEntry[] = [];
+
+  const take = (predicate: (file: File) => boolean): File | undefined => {
+    const idx = available.findIndex(predicate);
+    return idx === -1 ? undefined : available.splice(idx, 1)[0];
+  };
+
+  manifest.files.forEach(entry => {
+    const entryPath = innerPath(entry.relativePath);
+    const file =
+      (entryPath ? take(f => innerPath(f.webkitRelativePath) === entryPath) : undefined) ||
+      take(f => f.name === entry.name && f.size === entry.size) ||
+      take(f => f.name === entry.name);
+
+    if (file) matched.push({ entry, file });
+    else missing.push(entry);
+  });
+
+  return { matched, missing };
+};
+
+// Safe filename for the download
+export const projectFileName = (name: string): string =>
+  `${name.trim().replace(/[\\/:*?"<>|]+/g, '_') || 'Project'}${PROJECT_EXTENSION}`;
@@ -0,0 +1,111 @@
+import { AppSettings, FileType, PromptPreset } from "../types";
+import { CATEGORIES, DEFAULT_PROMPT_TEMPLATE } from "../constants";
+import { getLanguageInfo, SOURCE_LANGUAGE } from "./locales";
+import { buildBlocklistInstruction } from "./blocklist";
+
+// --- PROMPT TEMPLATES ---
+// A preset is a system-instruction template with {{placeholders}}.
+// The built-in preset reproduces the original hard-coded prompt exactly.
+
+export const BUILTIN_PRESET_ID = 'builtin-default';
+
+export const BUILTIN_PRESET: PromptPreset = {
+  id: BUILTIN_PRESET_ID,
+  name: 'Adobe Stock (Default)',
+  template: `${DEFAULT_PROMPT_TEMPLATE}\n\nAVAILABLE CATEGORIES (Pick one ID):\n{{categories}}{{constraints}}{{fileTypeRules}}`,
+};
+
+export const PROMPT_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'categories', description: 'Category list with IDs (required for category picking)' },
+  { key: 'constraints', description: 'Custom title/keyword + length/count rules from settings' },
+  { key: 'fileTypeRules', description: 'Extra analysis rules for the file type (e.g. vector negatives)' },
+  { key: 'customTitle', description: 'Custom Title setting (raw text)' },
+  { key: 'customKeyword', description: 'Custom Keyword setting (raw text)' },
+  { key: 'titleLength', description: 'Target title length (characters)' },
+  { key: 'keywordCount', description: 'Target keyword count' },
+  { key: 'fileType', description: 'Image, Video or Vector' },
+  { key: 'languages', description: 'Target translation languages with their codes' },
+  { key: 'blocklist', description: 'Forbidden brands, people, tech specs and your own terms' },
+];
+
+const VECTOR_RULES = `
+       
+       \n=== VECTOR/ILLUSTRATION SPECIFIC RULES ===
+       Since this is a Vector/Illustration file, you MUST follow these specific analysis rules:
+
+       1. VISUAL ANALYSIS:
+          - Identify main shapes (icon, shape, pattern, silhouette, badge, ornament).
+          - Analyze line details (thick, thin, stroke, outline).
+          - Analyze dominant colors and color style.
+
+       2. STYLE IDENTIFICATION:
+          - Detect the design style: flat design, minimalist, outline, 3D vector, retro, geometric, cartoon, or isometric.
+          - Context: business, education, environment, holiday, object, abstract, background, pattern, etc.
+
+       3. NEGATIVE PROMPT (STRICTLY FORBIDDEN):
+          - You are STRICTLY FORBIDDEN from using the following terms in Title or Keywords:
+            "white background", "transparent background", "isolated", "png", "background white", "no shadow background", "watermark", "clipart".
+          - Do NOT describe the file format (e.g., "vector file", "eps", "svg"), describe the visual content only.
+          - Ignore the white background if seen; focus on the object.
+       `;
+
+// User Settings Overrides with STRICT PRIORITY
+const buildConstraints = (settings: AppSettings): string => {
+  let text = '';
+  if (settings.customTitle) {
+    text += `\n\nCRITICAL PRIORITY: The English title MUST contain the phrase: "${settings.customTitle}". Ensure it is the main subject.`;
+  }
+  if (settings.customKeyword) {
+    text += `\n\nCRITICAL PRIORITY: The English keywords list MUST include: "${settings.customKeyword}" in the first 5 keywords.`;
+  }
+  if (settings.slideTitle > 0) {
+    text += `\n- STRICT CONSTRAINT: Title length MUST be EXACTLY or VERY CLOSE to ${settings.slideTitle} characters. Do not deviate significantly.`;
+  }
+  if (settings.slideKeyword > 0) {
+    text += `\n- STRICT CONSTRAINT: You MUST generate EXACTLY ${settings.slideKeyword} keywords. Count them carefully.`;
+  }
+  return text;
+};
+
+export const buildPromptVariables = (fileType: FileType, settings: AppSettings): Record<string, string> => ({
+  categories: CATEGORIES.map(c => `ID: "${c.id}" = ${c.en}`).join('\n'),
+  constraints: buildConstraints(settings),
+  fileTypeRules: fileType === FileType.Vector ? VECTOR_RULES : '',
+  customTitle: settings.customTitle,
+  customKeyword: settings.customKeyword,
+  titleLength: String(settings.slideTitle),
+  keywordCount: String(settings.slideKeyword),
+  fileType,
+  blocklist: buildBlocklistInstruction(fileType, settings),
+  languages: settings.targetLanguages.filter(c => c !== SOURCE_LANGUAGE).map(c => `"${c}" (${getLanguageInfo(c).name})`).join(', ') || 'none (English only)',
+});
+
+const usesPlaceholder = (template: string, key: string) => template.includes(`{{${key}}}`);
+
+// Replace {{placeholders}}. Blocks the pipeline depends on are appended when a custom
+// template leaves them out, so a minimal house-style preset still picks valid categories.
+export const renderPromptTemplate = (template: string, vars: Record<string, string>): string => {
+  let source = template;
+  if (!usesPlaceholder(source, 'categories')) {
+    source += `\n\nAVAILABLE CATEGORIES (Pick one ID):\n{{categories}}`;
+  }
+  const hasOwnConstraints = ['constraints', 'customTitle', 'customKeyword', 'titleLength', 'keywordCount'].some(k => usesPlaceholder(source, k));
+  if (!hasOwnConstraints) {
+    source += '{{constraints}}';
+  }
+  if (!usesPlaceholder(source, 'fileTypeRules')) {
+    source += '{{fileTypeRules}}';
+  }
+  if (!usesPlaceholder(source, 'blocklist')) {
+    source += '{{blocklist}}';
+  }
+
+  return source.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key) => (key in vars ? vars[key] : match));
+};
+
+export const getAllPresets = (settings: AppSettings): PromptPreset[] => [BUILTIN_PRESET, ...settings.promptPresets];
+
+export const getPresetForFileType = (settings: AppSettings, fileType: FileType): PromptPreset => {
+  const id = settings.promptPresetByType[fileType];
+  return getAllPresets(settings).find(p => p.id === id) || BUILTIN_PRESET;
+};
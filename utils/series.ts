@@ -0,0 +1,99 @@
+import { FileItem, FileMetadata } from "../types";
+import { splitKeywords } from "./exportProfiles";
+import { hammingDistance, histogramSimilarity } from "./imageHash";
+import { joinKeywords, normalizeKeyword, processKeywords } from "./keywords";
+
+// --- SERIES DETECTION ---
+// Groups visually similar files (same shoot, same subject) so their metadata can be aligned.
+// Two files are linked when their structure is close, or fairly close with a matching palette;
+// series are the connected groups (union-find), so A~B~C ends up in one series.
+
+export interface Series {
+  id: string;       // Stable: id of the first file in upload order
+  fileIds: string[];
+}
+
+const STRONG_HASH_DISTANCE = 12;  // Out of 64 bits
+const WEAK_HASH_DISTANCE = 22;
+const MIN_COLOUR_SIMILARITY = 0.75;
+
+const isSimilar = (a: FileItem, b: FileItem): boolean => {
+  if (!a.signature || !b.signature) return false;
+  const distance = hammingDistance(a.signature.dHash, b.signature.dHash);
+  if (distance <= STRONG_HASH_DISTANCE) return true;
+  return distance <= WEAK_HASH_DISTANCE && histogramSimilarity(a.signature.histogram, b.signature.histogram) >= MIN_COLOUR_SIMILARITY;
+};
+
+// Connected groups (2+ files) of the "linked" relation, in upload order
+export const clusterFiles = (files: FileItem[], isLinked: (a: FileItem, b: FileItem) => boolean): string[][] => {
+  const parent = files.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      if (find(i) !== find(j) && isLinked(files[i], files[j])) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>();
+  files.forEach((f, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), f.id]);
+  });
+  return Array.from(groups.values()).filter(ids => ids.length > 1);
+};
+
+export const detectSeries = (files: FileItem[]): Series[] => {
+  return clusterFiles(files.filter(f => f.signature), isSimilar).map(ids => ({ id: ids[0], fileIds: ids }));
+};
+
+// --- HARMONIZATION ---
+
+// Keywords used by at least this share of the series become the shared core
+const CORE_KEYWORD_SHARE = 0.5;
+
+// Shared core keywords (ordered by average rank) go first in every file, followed by the
+// file's own keywords; the category becomes the series majority. Titles are left alone:
+// they carry the per-image specifics.
+export const harmonizeSeries = (files: FileItem[], target: number): Map<string, FileMetadata> => {
+  const result = new Map<string, FileMetadata>();
+  if (files.length < 2) return result;
+
+  const stats = new Map<string, { count: number; rankSum: number }>();
+  files.forEach(f => {
+    const seen = new Set<string>();
+    splitKeywords(f.metadata.en.keywords).forEach((raw, rank) => {
+      const keyword = normalizeKeyword(raw);
+      if (!keyword || seen.has(keyword)) return;
+      seen.add(keyword);
+      const entry = stats.get(keyword) || { count: 0, rankSum: 0 };
+      stats.set(keyword, { count: entry.count + 1, rankSum: entry.rankSum + rank });
+    });
+  });
+
+  const core = Array.from(stats.entries())
+    .filter(([, s]) => s.count / files.length >= CORE_KEYWORD_SHARE)
+    .sort((a, b) => a[1].rankSum / a[1].count - b[1].rankSum / b[1].count)
+    .map(([keyword]) => keyword);
+
+  const categoryVotes = new Map<string, number>();
+  files.forEach(f => {
+    if (f.metadata.category) categoryVotes.set(f.metadata.category, (categoryVotes.get(f.metadata.category) || 0) + 1);
+  });
+  // Ties keep the earliest file's choice (Map keeps insertion order, sort is stable)
+  const category = Array.from(categoryVotes.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+
+  files.forEach(f => {
+    const own = splitKeywords(f.metadata.en.keywords);
+    const keywords = processKeywords([...core, ...own], { target }).keywords;
+    result.set(f.id, {
+      ...f.metadata,
+      en: { ...f.metadata.en, keywords: joinKeywords(keywords) },
+      category: category || f.metadata.category,
+    });
+  });
+
+  return result;
+};
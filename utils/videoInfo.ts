@@ -0,0 +1,177 @@
+import { AppSettings, VideoInfo } from "../types";
+
+// --- VIDEO TECHNICAL INSPECTION ---
+// Duration and dimensions come from the browser (<video> metadata). Frame rate and audio
+// presence are not exposed there, so MP4/MOV containers are read directly: the sample
+// table (stts) of the video track gives the frame count, the handler (hdlr) tells audio apart.
+// Other containers (WebM...) report fps/audio as unknown.
+
+const MAX_MOOV_SIZE = 64 * 1024 * 1024; // Bigger index = not a normal clip, skip parsing
+
+const CONTAINER_BOXES = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl']);
+
+interface Mp4Track {
+  handler: string;   // 'vide' | 'soun' | ...
+  timescale: number;
+  sampleCount: number;
+  sampleDuration: number; // Sum of all sample deltas, in timescale units
+}
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// Box size incl. 64-bit "largesize" (1) and "to end of parent" (0)
+const readBoxSize = (view: DataView, offset: number, end: number): { size: number; header: number } => {
+  const size = view.getUint32(offset);
+  if (size === 1) return { size: Number(view.getBigUint64(offset + 8)), header: 16 };
+  if (size === 0) return { size: end - offset, header: 8 };
+  return { size, header: 8 };
+};
+
+// Walks the moov payload collecting per-track handler, timescale and stts totals
+export const parseMp4Tracks = (moov: DataView): Mp4Track[] => {
+  const tracks: Mp4Track[] = [];
+  let track: Mp4Track | null = null;
+
+  const walk = (start: number, end: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const { size, header } = readBoxSize(moov, offset, end);
+      if (size < header || offset + size > end) return;
+      const type = readType(moov, offset + 4);
+      const body = offset + header;
+
+      if (type === 'trak') {
+        track = { handler: '', timescale: 0, sampleCount: 0, sampleDuration: 0 };
+        tracks.push(track);
+      }
+      if (CONTAINER_BOXES.has(type)) {
+        walk(body, offset + size);
+      } else if (track && type === 'hdlr') {
+        track.handler = readType(moov, body + 8);
+      } else if (track && type === 'mdhd') {
+        // version 1 has 64-bit creation/modification times
+        track.timescale = moov.getUint32(body + (moov.getUint8(body) === 1 ? 20 : 12));
+      } else if (track && type === 'stts') {
+        const entries = moov.getUint32(body + 4);
+        for (let i = 0; i < entries && body + 16 + i * 8 <= offset + size; i++) {
+          const count = moov.getUint32(body + 8 + i * 8);
+          const delta = moov.getUint32(body + 12 + i * 8);
+          track.sampleCount += count;
+          track.sampleDuration += count * delta;
+        }
+      }
+      offset += size;
+    }
+  };
+
+  walk(0, moov.byteLength);
+  return tracks;
+};
+
+// Finds the top-level moov box (start or end of file) by reading box headers only
+const readMoov = async (file: File): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const head = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    if (head.byteLength < 8) return null;
+    const { size, header } = readBoxSize(head, 0, file.size - offset);
+    const type = readType(head, 4);
+    if (offset === 0 && type !== 'ftyp') return null; // Not an ISO-BMFF (MP4/MOV) file
+    if (size < header) return null;
+    if (type === 'moov') {
+      if (size > MAX_MOOV_SIZE) return null;
+      return new DataView(await file.slice(offset + header, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+};
+
+const readVideoElement = (file: File): Promise<{ duration: number; width: number; height: number; hasAudio?: boolean }> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => {
+      // Only some browsers expose audio tracks (Safari, Firefox)
+      const media = video as HTMLVideoElement & { audioTracks?: { length: number }; mozHasAudio?: boolean };
+      const hasAudio = media.audioTracks ? media.audioTracks.length > 0 : media.mozHasAudio;
+      resolve({ duration: video.duration, width: video.videoWidth, height: video.videoHeight, hasAudio });
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Error loading video"));
+    };
+    video.src = url;
+  });
+};
+
+export const inspectVideo = async (file: File): Promise<VideoInfo> => {
+  const element = await readVideoElement(file);
+  const info: VideoInfo = {
+    duration: Math.round(element.duration * 100) / 100,
+    width: element.width,
+    height: element.height,
+    hasAudio: element.hasAudio,
+  };
+
+  try {
+    const moov = await readMoov(file);
+    if (!moov) return info;
+    const tracks = parseMp4Tracks(moov);
+    const video = tracks.find(t => t.handler === 'vide' && t.sampleDuration > 0 && t.timescale > 0);
+    if (video) {
+      info.fps = Math.round((video.sampleCount * video.timescale / video.sampleDuration) * 100) / 100;
+    }
+    info.hasAudio = tracks.some(t => t.handler === 'soun');
+  } catch (error) {
+    console.warn("MP4 inspection failed", file.name, error);
+  }
+  return info;
+};
+
+// --- PRESENTATION & CHECKS ---
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// 3840x2160 -> "4K", 1920x1080 -> "1080p" (short side, so vertical clips work too)
+export const resolutionLabel = (info: VideoInfo): string => {
+  const short = Math.min(info.width, info.height);
+  if (short >= 2160) return '4K';
+  if (short >= 1440) return '1440p';
+  return `${short}p`;
+};
+
+export const getVideoWarnings = (info: VideoInfo, settings: AppSettings): string[] => {
+  const warnings: string[] = [];
+  if (settings.videoMinDuration > 0 && info.duration < settings.videoMinDuration) {
+    warnings.push(`Under ${settings.videoMinDuration}s`);
+  }
+  if (settings.videoMinResolution > 0 && Math.min(info.width, info.height) < settings.videoMinResolution) {
+    warnings.push(`Below ${settings.videoMinResolution}p`);
+  }
+  return warnings;
+};
+
+// Facts for the prompt, with what they usually mean for the footage
+export const describeVideoForPrompt = (info: VideoInfo): string => {
+  const facts = [
+    `duration ${info.duration.toFixed(1)} seconds`,
+    `${info.width}x${info.height}`,
+    ...(info.fps ? [`${info.fps} fps`] : []),
+    ...(info.hasAudio === undefined ? [] : [info.hasAudio ? 'has audio' : 'no audio']),
+  ];
+  const hints = [
+    ...(info.fps && info.fps >= 48 ? ['The high frame rate means it was likely shot for slow motion; if the motion in the frames looks slowed down, describe it as slow motion.'] : []),
+    'If the frames show sped-up change (moving clouds, crowds, light), describe it as a timelapse.',
+  ];
+  return `Technical facts: ${facts.join(', ')}. ${hints.join(' ')} Use these facts only to describe the motion correctly; never put resolution, fps, duration or other specs in the title or keywords.`;
+};
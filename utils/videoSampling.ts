@@ -0,0 +1,78 @@
+// --- VIDEO FRAME SAMPLING ---
+// Which moments of a clip are sent to the AI.
+// 'even':  N frames spread over the clip (10% .. 90%).
+// 'scene': the clip is scanned at low resolution; a frame is kept whenever the picture has
+//          changed enough since the last kept one (cuts, motion, timelapse drift), up to N.
+//          Static clips end up with a single frame instead of N near-identical ones.
+
+export const MIN_VIDEO_FRAMES = 1;
+export const MAX_VIDEO_FRAMES = 8;
+
+export const SCAN_WIDTH = 64;   // Low-res scan canvas (16:9)
+export const SCAN_HEIGHT = 36;
+
+// Mean luminance change (0..1) from which a scanned frame counts as new content
+const KEYFRAME_CHANGE = 0.12;
+
+export const clampFrameCount = (count: number) =>
+  Math.min(MAX_VIDEO_FRAMES, Math.max(MIN_VIDEO_FRAMES, Math.round(count) || MIN_VIDEO_FRAMES));
+
+// Same 10% / 50% / 90% spread as before for 3 frames; one frame = the middle
+export const evenFrameTimes = (duration: number, count: number): number[] => {
+  const n = clampFrameCount(count);
+  if (n === 1) return [duration * 0.5];
+  return Array.from({ length: n }, (_, i) => duration * (0.1 + (0.8 * i) / (n - 1)));
+};
+
+// Enough scan points to catch short shots without seeking the whole clip
+export const scanFrameTimes = (duration: number, count: number): number[] => {
+  const points = Math.min(60, Math.max(24, clampFrameCount(count) * 6));
+  return Array.from({ length: points }, (_, i) => duration * (0.02 + (0.96 * i) / (points - 1)));
+};
+
+// Luminance of an RGBA scan frame
+export const toLuma = (pixels: Uint8ClampedArray): Float32Array => {
+  const luma = new Float32Array(pixels.length / 4);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = (pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114) / 255;
+  }
+  return luma;
+};
+
+export const frameDifference = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return a.length > 0 ? sum / a.length : 0;
+};
+
+// Picks up to `count` scan points: the first, then every point that differs enough from the
+// last kept one. When that gives too many, the biggest changes win (the first is always kept).
+export const pickSceneFrames = (times: number[], frames: Float32Array[], count: number): number[] => {
+  if (times.length === 0) return [];
+  const n = clampFrameCount(count);
+  const kept: { index: number; change: number }[] = [{ index: 0, change: Infinity }];
+  for (let i = 1; i < frames.length; i++) {
+    const change = frameDifference(frames[kept[kept.length - 1].index], frames[i]);
+    if (change >= KEYFRAME_CHANGE) kept.push({ index: i, change });
+  }
+
+  // Nothing happens: the middle of the clip says the most
+  if (kept.length === 1) return [times[Math.floor(times.length / 2)]];
+
+  return kept
+    .slice()
+    .sort((a, b) => b.change - a.change)
+    .slice(0, n)
+    .sort((a, b) => a.index - b.index)
+    .map(k => times[k.index]);
+};
+
+// 75.4 -> "1:15.4"
+export const formatTimestamp = (seconds: number): string => {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths - minutes * 600) / 10;
+  return `${minutes}:${rest < 10 ? '0' : ''}${rest.toFixed(1)}`;
+};
@@ -0,0 +1,154 @@
+// Minimal ZIP writer (STORE method, no compression).
+// JPEGs are already compressed, so deflating them again only costs CPU time.
+// Entries are added one at a time and moved into a Blob right away: only the small central
+// directory stays in the JS heap, so archives larger than the heap can still be built.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  lastModified?: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date/time format used by the ZIP headers
+const toDosDateTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2);
+  const date = ((Math.max(d.getFullYear(), 1980) - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  return { time, date };
+};
+
+// ZIP64 kicks in per field once a size, an offset or the entry count no longer fits the classic
+// 32/16-bit headers (a batch of full-size JPEGs easily passes 4 GB). Smaller archives are unchanged.
+const MAX_32 = 0xFFFFFFFF; // Also the "see ZIP64 record" marker value
+const MAX_16 = 0xFFFF;
+const ZIP64_VERSION = 45;
+
+// ZIP64 extended information extra field with the given 64-bit values (order is fixed by the spec)
+const zip64Extra = (values: number[]): Uint8Array => {
+  const extra = new DataView(new ArrayBuffer(4 + values.length * 8));
+  extra.setUint16(0, 0x0001, true);
+  extra.setUint16(2, values.length * 8, true);
+  values.forEach((value, i) => extra.setBigUint64(4 + i * 8, BigInt(value), true));
+  return new Uint8Array(extra.buffer);
+};
+
+export interface ZipWriter {
+  add: (entry: ZipEntry) => void;
+  finish: () => Blob;
+}
+
+export const createZipWriter = (): ZipWriter => {
+  const encoder = new TextEncoder();
+  const parts: Blob[] = [];
+  const central: Uint8Array[] = [];
+  let count = 0;
+  let offset = 0;
+
+  const add = (entry: ZipEntry) => {
+    const nameBytes = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = toDosDateTime(entry.lastModified ?? Date.now());
+    const size = entry.data.length;
+    const bigSize = size >= MAX_32;
+    const bigOffset = offset >= MAX_32;
+    const version = bigSize || bigOffset ? ZIP64_VERSION : 20;
+
+    // Local file header
+    const localExtra = bigSize ? zip64Extra([size, size]) : new Uint8Array(0);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, version, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 filenames
+    local.setUint16(8, 0, true); // STORE
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bigSize ? MAX_32 : size, true);
+    local.setUint32(22, bigSize ? MAX_32 : size, true);
+    local.setUint16(26, nameBytes.length, true);
+    local.setUint16(28, localExtra.length, true);
+
+    // Central directory header
+    const dirExtra = bigSize || bigOffset
+      ? zip64Extra([...(bigSize ? [size, size] : []), ...(bigOffset ? [offset] : [])])
+      : new Uint8Array(0);
+    const dir = new DataView(new ArrayBuffer(46));
+    dir.setUint32(0, 0x02014B50, true);
+    dir.setUint16(4, version, true); // version made by
+    dir.setUint16(6, version, true);
+    dir.setUint16(8, 0x0800, true);
+    dir.setUint16(10, 0, true);
+    dir.setUint16(12, time, true);
+    dir.setUint16(14, date, true);
+    dir.setUint32(16, crc, true);
+    dir.setUint32(20, bigSize ? MAX_32 : size, true);
+    dir.setUint32(24, bigSize ? MAX_32 : size, true);
+    dir.setUint16(28, nameBytes.length, true);
+    dir.setUint16(30, dirExtra.length, true);
+    dir.setUint32(42, bigOffset ? MAX_32 : offset, true);
+
+    // The caller can drop entry.data now: the bytes live in the Blob (browser storage, not the heap)
+    parts.push(new Blob([new Uint8Array(local.buffer), nameBytes, localExtra as BlobPart, entry.data as BlobPart]));
+    central.push(new Uint8Array(dir.buffer), nameBytes, dirExtra);
+    offset += 30 + nameBytes.length + localExtra.length + size;
+    count++;
+  };
+
+  const finish = (): Blob => {
+    const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+    const needsZip64 = count >= MAX_16 || centralSize >= MAX_32 || offset >= MAX_32;
+    const trailer: Uint8Array[] = [];
+
+    if (needsZip64) {
+      // ZIP64 end of central directory record + locator, right after the central directory
+      const record = new DataView(new ArrayBuffer(56));
+      record.setUint32(0, 0x06064B50, true);
+      record.setBigUint64(4, BigInt(56 - 12), true); // Size of the rest of the record
+      record.setUint16(12, ZIP64_VERSION, true);
+      record.setUint16(14, ZIP64_VERSION, true);
+      record.setBigUint64(24, BigInt(count), true);
+      record.setBigUint64(32, BigInt(count), true);
+      record.setBigUint64(40, BigInt(centralSize), true);
+      record.setBigUint64(48, BigInt(offset), true);
+
+      const locator = new DataView(new ArrayBuffer(20));
+      locator.setUint32(0, 0x07064B50, true);
+      locator.setBigUint64(8, BigInt(offset + centralSize), true);
+      locator.setUint32(16, 1, true); // Total number of disks
+      trailer.push(new Uint8Array(record.buffer), new Uint8Array(locator.buffer));
+    }
+
+    // End of central directory record (saturated values point readers to the ZIP64 record)
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054B50, true);
+    end.setUint16(8, needsZip64 ? MAX_16 : count, true);
+    end.setUint16(10, needsZip64 ? MAX_16 : count, true);
+    end.setUint32(12, needsZip64 ? MAX_32 : centralSize, true);
+    end.setUint32(16, needsZip64 ? MAX_32 : offset, true);
+    trailer.push(new Uint8Array(end.buffer));
+
+    return new Blob([...parts, ...(central as BlobPart[]), ...(trailer as BlobPart[])], { type: 'application/zip' });
+  };
+
+  return { add, finish };
+};
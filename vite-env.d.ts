@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+import 'react';
+
+// Folder pickers: non-standard <input type="file"> attributes (Chromium/WebKit, Firefox)
+declare module 'react' {
+  interface InputHTMLAttributes<T> {
+    webkitdirectory?: string;
+    directory?: string;
+  }
+}